@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  SESSION_COOKIE,
+  authenticate,
+  findApiKey,
+  hasScope,
+  mintSessionToken,
+} from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Web UI sign-in. POST { apiKey } exchanges an API key for a signed session
+ * cookie with the key's scopes, so the key itself never has to be kept in
+ * the browser. GET reports the current caller (optionally checking one
+ * ?scope=), DELETE signs out.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const principal = authenticate(req);
+    if (!principal) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+    const scope = req.nextUrl.searchParams.get("scope");
+    if (scope && !hasScope(principal, scope)) {
+      return NextResponse.json(
+        { error: `Missing scope: ${scope}` },
+        { status: 403 },
+      );
+    }
+    return NextResponse.json(principal);
+  } catch (error: unknown) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json(
+      { error: "Authentication is not configured", details: errorMsg },
+      { status: 503 },
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const principal =
+      typeof body.apiKey === "string" ? findApiKey(body.apiKey.trim()) : null;
+    if (!principal) {
+      return NextResponse.json({ error: "Invalid API key" }, { status: 401 });
+    }
+
+    const { token, expiresAt } = mintSessionToken(principal);
+    const response = NextResponse.json({
+      id: principal.id,
+      scopes: principal.scopes,
+      expiresAt,
+    });
+    response.cookies.set(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: "strict",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      expires: new Date(expiresAt),
+    });
+    return response;
+  } catch (error: unknown) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.error("Sign-in failed:", errorMsg);
+    return NextResponse.json(
+      { error: "Sign-in failed", details: errorMsg },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
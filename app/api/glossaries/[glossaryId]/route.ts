@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireScope, workspaceOf } from "@/lib/auth";
+import { glossaryToCsv, parseGlossaryBody } from "@/lib/glossary";
+import {
+  deleteGlossary,
+  getGlossary,
+  updateGlossary,
+} from "@/lib/glossaryStore";
+
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ glossaryId: string }> };
+
+const notFound = () =>
+  NextResponse.json({ error: "Glossary not found" }, { status: 404 });
+
+// One glossary with its terms; ?format=csv downloads it for spreadsheets
+export async function GET(req: NextRequest, { params }: Params) {
+  const auth = requireScope(req, "glossary");
+  if (auth instanceof NextResponse) return auth;
+
+  const { glossaryId } = await params;
+  const glossary = await getGlossary(workspaceOf(auth), glossaryId);
+  if (!glossary) return notFound();
+
+  if (req.nextUrl.searchParams.get("format") === "csv") {
+    const fileName = glossary.name.replace(/[^\w.-]+/g, "_") || "glossary";
+    return new NextResponse(glossaryToCsv(glossary.terms), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}.csv"`,
+      },
+    });
+  }
+  return NextResponse.json(glossary);
+}
+
+/**
+ * Renames and/or replaces the terms of a glossary. Takes the same bodies as
+ * POST /api/glossaries; a CSV upload replaces every term.
+ */
+export async function PUT(req: NextRequest, { params }: Params) {
+  const auth = requireScope(req, "glossary");
+  if (auth instanceof NextResponse) return auth;
+
+  let body: ReturnType<typeof parseGlossaryBody>;
+  try {
+    body = parseGlossaryBody(
+      req.headers.get("content-type") || "",
+      await req.text(),
+      req.nextUrl.searchParams.get("name"),
+    );
+  } catch (error: unknown) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json(
+      { error: "Invalid glossary", details: errorMsg },
+      { status: 400 },
+    );
+  }
+
+  const { glossaryId } = await params;
+  const glossary = await updateGlossary(workspaceOf(auth), glossaryId, body);
+  return glossary ? NextResponse.json(glossary) : notFound();
+}
+
+// Jobs already running keep the copy of the terms they started with
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const auth = requireScope(req, "glossary");
+  if (auth instanceof NextResponse) return auth;
+
+  const { glossaryId } = await params;
+  const deleted = await deleteGlossary(workspaceOf(auth), glossaryId);
+  return deleted
+    ? NextResponse.json({ glossaryId, status: "deleted" })
+    : notFound();
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireScope, workspaceOf } from "@/lib/auth";
+import { parseGlossaryBody } from "@/lib/glossary";
+import { createGlossary, listGlossaries } from "@/lib/glossaryStore";
+
+export const dynamic = "force-dynamic";
+
+// The caller's workspace glossaries, without their terms
+export async function GET(req: NextRequest) {
+  const auth = requireScope(req, "glossary");
+  if (auth instanceof NextResponse) return auth;
+
+  const glossaries = await listGlossaries(workspaceOf(auth));
+  return NextResponse.json({ glossaries });
+}
+
+/**
+ * Creates a glossary from JSON `{ name, terms }`, or imports a CSV sent as
+ * text/csv with `?name=` (columns: source, target, target_language,
+ * do_not_translate, pronunciation).
+ */
+export async function POST(req: NextRequest) {
+  const auth = requireScope(req, "glossary");
+  if (auth instanceof NextResponse) return auth;
+
+  let body: ReturnType<typeof parseGlossaryBody>;
+  try {
+    body = parseGlossaryBody(
+      req.headers.get("content-type") || "",
+      await req.text(),
+      req.nextUrl.searchParams.get("name"),
+    );
+  } catch (error: unknown) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json(
+      { error: "Invalid glossary", details: errorMsg },
+      { status: 400 },
+    );
+  }
+  if (!body.name) {
+    return NextResponse.json(
+      { error: "Invalid glossary", details: "name is required" },
+      { status: 400 },
+    );
+  }
+
+  const glossary = await createGlossary(
+    workspaceOf(auth),
+    body.name,
+    body.terms ?? [],
+  );
+  return NextResponse.json(glossary, { status: 201 });
+}
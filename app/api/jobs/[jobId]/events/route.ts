@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob, type JobRecord } from "@/lib/jobStore";
+import { subscribeJobEvents, type JobEvent } from "@/lib/jobEvents";
+import { advanceBatchJob } from "@/lib/pipeline";
+import { requireScope } from "@/lib/auth";
+import { usageKeyFor } from "@/lib/rateLimit";
+
+export const dynamic = "force-dynamic";
+
+const POLL_INTERVAL_MS = 3000;
+const HEARTBEAT_MS = 15000;
+
+// Replay what already happened so late subscribers start in sync
+function snapshotEvents(job: JobRecord): JobEvent[] {
+  const events: JobEvent[] = [];
+  if (job.history.some((h) => h.state === "uploaded")) {
+    events.push({ type: "upload_committed" });
+  }
+  events.push({ type: "state", state: job.state });
+  if (job.state === "done") {
+    events.push({ type: "completed" });
+  } else if (job.state === "failed") {
+    events.push({ type: "failed", error: job.error || "Job failed" });
+  }
+  return events;
+}
+
+/**
+ * Server-Sent Events stream of a job's progress. While a client is connected
+ * this route also drives the batch job forward, so nothing else has to poll.
+ * The stream ends after a "completed" or "failed" event; the client then
+ * reads the result from /api/check-job.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> },
+) {
+  const auth = requireScope(req, "jobs:read");
+  if (auth instanceof NextResponse) return auth;
+
+  const { jobId } = await params;
+  const job = await getJob(jobId);
+  // Someone else's job looks the same as a missing one
+  if (!job || (job.usageKey && job.usageKey !== usageKeyFor(auth, req))) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let close = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let pollTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const send = (event: JobEvent) => {
+        if (closed) return;
+        controller.enqueue(
+          encoder.encode(
+            `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`,
+          ),
+        );
+        if (event.type === "completed" || event.type === "failed") {
+          close();
+        }
+      };
+
+      const unsubscribe = subscribeJobEvents(jobId, send);
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(": ping\n\n"));
+      }, HEARTBEAT_MS);
+
+      close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+        clearTimeout(pollTimer);
+        controller.close();
+      };
+      req.signal.addEventListener("abort", close);
+
+      snapshotEvents(job).forEach(send);
+
+      const poll = async () => {
+        if (closed) return;
+        try {
+          const current = await getJob(jobId);
+          if (current) {
+            const { job: latest } = await advanceBatchJob(current);
+            // Covers transitions made by another process we can't hear
+            if (latest.state === "done" || latest.state === "failed") {
+              snapshotEvents(latest).forEach(send);
+            }
+          }
+        } catch (err: unknown) {
+          // Transient upstream errors shouldn't end the stream, keep polling
+          console.error(
+            `SSE poll for job ${jobId} failed:`,
+            err instanceof Error ? err.message : String(err),
+          );
+        }
+        if (!closed) pollTimer = setTimeout(poll, POLL_INTERVAL_MS);
+      };
+      poll();
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob } from "@/lib/jobStore";
+import {
+  RevisionConflictError,
+  reviseJob,
+  type JobRevision,
+} from "@/lib/pipeline";
+import { hasScope, requireScope } from "@/lib/auth";
+import { enforceLimits, usageKeyFor } from "@/lib/rateLimit";
+import { upstreamErrorResponse } from "@/lib/upstream";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Corrects a finished job's text instead of re-recording it. The body is
+ * either `{ originalText }`, which re-runs translation and TTS for every
+ * target, or `{ translatedText, language? }`, which only re-runs TTS for
+ * that target (the job's primary one by default). Voices, glossary and
+ * translation options come from the job. Answers 409 while another revision
+ * of the job is running, or if the job changed before this one finished.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> },
+) {
+  const auth = requireScope(req);
+  if (auth instanceof NextResponse) return auth;
+
+  const { jobId } = await params;
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const originalText =
+    typeof body?.originalText === "string" ? body.originalText.trim() : "";
+  const translatedText =
+    typeof body?.translatedText === "string" ? body.translatedText.trim() : "";
+  if (Boolean(originalText) === Boolean(translatedText)) {
+    return NextResponse.json(
+      { error: "Send either originalText or translatedText" },
+      { status: 400 },
+    );
+  }
+
+  // A new transcript is translated again; a new translation is only spoken
+  const scope = originalText ? "translate" : "tts";
+  if (!hasScope(auth, scope)) {
+    return NextResponse.json(
+      { error: `Missing scope: ${scope}` },
+      { status: 403 },
+    );
+  }
+
+  const job = await getJob(jobId);
+  const usageKey = usageKeyFor(auth, req);
+  // Someone else's job looks the same as a missing one
+  if (!job || (job.usageKey && job.usageKey !== usageKey)) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+  if (job.state !== "done") {
+    return NextResponse.json(
+      { error: "Job has not finished processing" },
+      { status: 409 },
+    );
+  }
+
+  let revision: JobRevision;
+  if (originalText) {
+    revision = { originalText };
+  } else {
+    const language = body.language || job.targetLanguage;
+    const outputs = job.translations?.map((t) => t.language) ?? [
+      job.targetLanguage,
+    ];
+    if (!outputs.includes(language)) {
+      return NextResponse.json(
+        { error: `Job has no ${language} translation` },
+        { status: 404 },
+      );
+    }
+    revision = { language, translatedText };
+  }
+
+  const targets = job.targetLanguages?.length ?? 1;
+  const limited = await enforceLimits(
+    auth,
+    usageKey,
+    originalText
+      ? { translateChars: originalText.length * targets, ttsChars: 0 }
+      : { ttsChars: translatedText.length },
+  );
+  if (limited) return limited;
+
+  try {
+    const revised = await reviseJob(job, revision, req.signal);
+    return NextResponse.json({
+      status: "completed",
+      jobId: revised.id,
+      originalText: revised.originalText,
+      translatedText: revised.translatedText,
+      audioBase64: revised.audioBase64,
+      hasSubtitles: Boolean(revised.segments?.length),
+      voice: revised.speakerConfig,
+      translationOptions: revised.translationOptions,
+      sourceLanguage: revised.sourceLanguage,
+      detectedLanguage: revised.detectedLanguage,
+      translations: revised.translations?.map(
+        ({ language, translatedText, audioBase64, warning, edited }) => ({
+          language,
+          translatedText,
+          audioBase64,
+          warning,
+          edited,
+        }),
+      ),
+      ...(revised.warning ? { warning: revised.warning } : {}),
+    });
+  } catch (error: unknown) {
+    console.error("Revise Route Error:", error);
+    if (error instanceof RevisionConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    const degraded = upstreamErrorResponse(error);
+    if (degraded) return degraded;
+    return NextResponse.json(
+      {
+        error: "Failed to revise job",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
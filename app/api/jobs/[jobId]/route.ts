@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob, updateJob } from "@/lib/jobStore";
+import { cancelJob } from "@/lib/pipeline";
+import { requireScope } from "@/lib/auth";
+import { usageKeyFor } from "@/lib/rateLimit";
+import { parseTranslationOptions } from "@/lib/translationOptions";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Retunes a job that hasn't started translating yet, so a batch job's
+ * translation options can change while STT runs. The body is
+ * `{ translationOptions }`; fields left out keep the job's current values.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> },
+) {
+  const auth = requireScope(req, "translate");
+  if (auth instanceof NextResponse) return auth;
+
+  const { jobId } = await params;
+  const job = await getJob(jobId);
+  // Only the caller that started the job may change it
+  if (!job || (job.usageKey && job.usageKey !== usageKeyFor(auth, req))) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  let translationOptions;
+  try {
+    const body = await req.json();
+    translationOptions = parseTranslationOptions({
+      ...job.translationOptions,
+      ...body?.translationOptions,
+    });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      {
+        error: "Invalid translation options",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 400 },
+    );
+  }
+
+  const updated = await updateJob(job.id, { translationOptions }, [
+    "created",
+    "uploaded",
+    "transcribing",
+  ]);
+  if (!updated) {
+    return NextResponse.json(
+      { error: "Translation has already started for this job" },
+      { status: 409 },
+    );
+  }
+  return NextResponse.json({
+    jobId,
+    status: updated.state,
+    translationOptions: updated.translationOptions,
+  });
+}
+
+/**
+ * Cancels an unfinished job for the caller that started it. Translation and
+ * TTS chunks still queued are dropped; a batch STT job already running
+ * upstream finishes there but is never picked up.
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> },
+) {
+  const auth = requireScope(req, "translate");
+  if (auth instanceof NextResponse) return auth;
+
+  const { jobId } = await params;
+  const job = await getJob(jobId);
+  // Someone else's job looks the same as a missing one
+  if (!job || (job.usageKey && job.usageKey !== usageKeyFor(auth, req))) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+  if (job.state === "done" || job.state === "failed") {
+    return NextResponse.json(
+      { error: `Job already ${job.state}` },
+      { status: 409 },
+    );
+  }
+
+  const cancelled = await cancelJob(jobId);
+  return NextResponse.json({
+    jobId,
+    status: cancelled?.state === "failed" ? "cancelled" : cancelled?.state,
+  });
+}
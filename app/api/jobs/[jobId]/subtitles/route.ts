@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob } from "@/lib/jobStore";
+import {
+  toSrt,
+  toWebVtt,
+  type SubtitleFormat,
+  type SubtitleTrack,
+} from "@/lib/subtitles";
+import { requireScope } from "@/lib/auth";
+import { usageKeyFor } from "@/lib/rateLimit";
+
+export const dynamic = "force-dynamic";
+
+// RFC 6266: an ASCII filename for old clients, the real one as UTF-8
+function attachment(fileName: string): string {
+  const ascii = fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  const encoded = encodeURIComponent(fileName).replace(
+    /['()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+  return `attachment; filename="${ascii}"; filename*=UTF-8''${encoded}`;
+}
+
+const FORMATS: SubtitleFormat[] = ["srt", "vtt"];
+const TRACKS: SubtitleTrack[] = ["original", "translated"];
+
+// GET /api/jobs/:jobId/subtitles?format=srt|vtt&track=original|translated
+// Multi-language jobs take &language=<code> for the translated track
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> },
+) {
+  const auth = requireScope(req, "jobs:read");
+  if (auth instanceof NextResponse) return auth;
+
+  const { jobId } = await params;
+  const { searchParams } = new URL(req.url);
+  const format = (searchParams.get("format") || "srt") as SubtitleFormat;
+  const track = (searchParams.get("track") || "original") as SubtitleTrack;
+  const requestedLanguage = searchParams.get("language");
+
+  if (!FORMATS.includes(format) || !TRACKS.includes(track)) {
+    return NextResponse.json(
+      {
+        error:
+          "format must be srt or vtt, track must be original or translated",
+      },
+      { status: 400 },
+    );
+  }
+
+  const job = await getJob(jobId);
+  // Someone else's job looks the same as a missing one
+  if (!job || (job.usageKey && job.usageKey !== usageKeyFor(auth, req))) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+  if (job.state !== "done") {
+    return NextResponse.json(
+      { error: "Job has not finished processing" },
+      { status: 409 },
+    );
+  }
+
+  const translation = job.translations?.find(
+    (t) => t.language === (requestedLanguage || job.targetLanguage),
+  );
+  if (
+    requestedLanguage &&
+    !translation &&
+    requestedLanguage !== job.targetLanguage
+  ) {
+    return NextResponse.json(
+      { error: `Job has no ${requestedLanguage} translation` },
+      { status: 404 },
+    );
+  }
+
+  if (track === "translated" && translation?.edited) {
+    return NextResponse.json(
+      { error: "Translation was edited and has no timestamps" },
+      { status: 404 },
+    );
+  }
+
+  const segments = translation?.segments ?? job.segments;
+  if (!segments?.length) {
+    return NextResponse.json(
+      { error: "No timestamps available for this job" },
+      { status: 404 },
+    );
+  }
+
+  const body =
+    format === "srt" ? toSrt(segments, track) : toWebVtt(segments, track);
+  const baseName = job.fileName.replace(/\.[^.]+$/, "") || "audio";
+  const language =
+    track === "translated"
+      ? translation?.language || job.targetLanguage
+      : job.sourceLanguage || "source";
+
+  return new Response(body, {
+    headers: {
+      "Content-Type":
+        format === "srt"
+          ? "application/x-subrip; charset=utf-8"
+          : "text/vtt; charset=utf-8",
+      "Content-Disposition": attachment(`${baseName}.${language}.${format}`),
+    },
+  });
+}
@@ -0,0 +1,238 @@
+import { timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  speechToText,
+  textToSpeech,
+  resolveSpeakerConfig,
+  type SpeakerConfig,
+} from "@/lib/sarvam";
+import { splitForTts, translateTranscript } from "@/lib/pipeline";
+import type { LiveSegmentLine } from "@/lib/liveProtocol";
+import { parseVoiceSelection } from "@/lib/voices";
+import { parseSourceLanguage, resolveSourceLanguage } from "@/lib/languages";
+import {
+  parseTranslationOptions,
+  type TranslationOptions,
+} from "@/lib/translationOptions";
+import { preprocessAudio } from "@/lib/audioPreprocess";
+import { applyPronunciations, termsFor } from "@/lib/glossary";
+import { resolveGlossary, type GlossarySnapshot } from "@/lib/glossaryStore";
+import { requireScope, workspaceOf } from "@/lib/auth";
+import { enforceLimits, recordUsage, usageKeyFor } from "@/lib/rateLimit";
+import { upstreamErrorResponse } from "@/lib/upstream";
+
+export const dynamic = "force-dynamic";
+
+// Whether the request came from the server.js relay, which shares
+// LIVE_RELAY_SECRET with this process
+function fromRelay(req: NextRequest): boolean {
+  const secret = process.env.LIVE_RELAY_SECRET;
+  const presented = req.headers.get("x-live-relay");
+  return Boolean(
+    secret &&
+    presented &&
+    presented.length === secret.length &&
+    timingSafeEqual(Buffer.from(presented), Buffer.from(secret)),
+  );
+}
+
+/**
+ * One speech segment from a live session (relayed by server.js).
+ *
+ * mode=partial: STT only, returns { text, languageCode } as JSON.
+ * mode=final:   STT, translation and TTS, streamed back as NDJSON lines
+ *               (transcript, translation, then one line per audio chunk) so
+ *               the socket can forward each piece as soon as it is ready.
+ *
+ * Audio minutes are charged for final segments only; partials re-read the
+ * same audio, so they are only served to the relay, never to direct calls.
+ */
+export async function POST(req: NextRequest) {
+  const auth = requireScope(req, "translate");
+  if (auth instanceof NextResponse) return auth;
+  const usageKey = usageKeyFor(auth, req);
+
+  const formData = await req.formData();
+  const audioFile = formData.get("audio") as File | null;
+  const targetLanguage = formData.get("targetLanguage") as string | null;
+  const mode = (formData.get("mode") as string | null) || "final";
+  if (mode === "partial" && !fromRelay(req)) {
+    return NextResponse.json(
+      { error: "Partial transcripts are only available over /api/live" },
+      { status: 403 },
+    );
+  }
+  const voiceJson = formData.get("voice") as string | null;
+  const sessionId = formData.get("sessionId") as string | null;
+
+  if (!audioFile) {
+    return NextResponse.json(
+      { error: "No audio file provided" },
+      { status: 400 },
+    );
+  }
+
+  // Unset lets STT detect the spoken language
+  let sourceLanguage: string | undefined;
+  try {
+    sourceLanguage = parseSourceLanguage(formData.get("sourceLanguage"));
+  } catch (error: unknown) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json(
+      { error: "Invalid source language", details: errorMsg },
+      { status: 400 },
+    );
+  }
+
+  const limited = await enforceLimits(
+    auth,
+    usageKey,
+    mode === "partial"
+      ? { audioMinutes: 0 }
+      : { audioMinutes: 0, translateChars: 0, ttsChars: 0 },
+  );
+  if (limited) return limited;
+
+  const { buffer, mimeType, durationSeconds } = await preprocessAudio(
+    Buffer.from(await audioFile.arrayBuffer()),
+    audioFile.type || "audio/webm",
+    "segment",
+  );
+
+  if (mode === "partial") {
+    try {
+      const { text, languageCode } = await speechToText(
+        buffer,
+        mimeType,
+        sourceLanguage,
+      );
+      return NextResponse.json({ text, languageCode });
+    } catch (error: unknown) {
+      const degraded = upstreamErrorResponse(error);
+      if (degraded) return degraded;
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return NextResponse.json(
+        { error: "Partial transcription failed", details: errorMsg },
+        { status: 500 },
+      );
+    }
+  }
+
+  if (!targetLanguage) {
+    return NextResponse.json(
+      { error: "No target language provided" },
+      { status: 400 },
+    );
+  }
+
+  // A random voice is seeded by the session id, so it stays the same for
+  // every segment of the session
+  let speakerConfig: SpeakerConfig;
+  try {
+    speakerConfig = resolveSpeakerConfig(
+      parseVoiceSelection(voiceJson),
+      sessionId || undefined,
+    );
+  } catch (error: unknown) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json(
+      { error: "Invalid voice", details: errorMsg },
+      { status: 400 },
+    );
+  }
+
+  let translationOptions: TranslationOptions;
+  try {
+    translationOptions = parseTranslationOptions(
+      formData.get("translationOptions"),
+    );
+  } catch (error: unknown) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json(
+      { error: "Invalid translation options", details: errorMsg },
+      { status: 400 },
+    );
+  }
+
+  let glossary: GlossarySnapshot | undefined;
+  try {
+    glossary = await resolveGlossary(
+      workspaceOf(auth),
+      formData.get("glossaryId"),
+    );
+  } catch (error: unknown) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json(
+      { error: "Invalid glossary", details: errorMsg },
+      { status: 400 },
+    );
+  }
+  const terms = termsFor(glossary?.terms, targetLanguage);
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (line: LiveSegmentLine) =>
+        controller.enqueue(encoder.encode(JSON.stringify(line) + "\n"));
+
+      try {
+        const stt = await speechToText(buffer, mimeType, sourceLanguage);
+        const { text, words } = stt;
+        const language = resolveSourceLanguage(sourceLanguage, stt);
+        await recordUsage(
+          usageKey,
+          "audioMinutes",
+          (durationSeconds ?? words?.at(-1)?.end ?? 0) / 60,
+        );
+        send({
+          type: "transcript",
+          text,
+          languageCode: language.sourceLanguage,
+          detectedLanguage: language.detectedLanguage,
+          languageWarning: language.warning,
+        });
+        if (!text.trim()) return;
+
+        const { translatedText, warning } = await translateTranscript(
+          text,
+          targetLanguage,
+          language.sourceLanguage,
+          translationOptions.speakerGender ?? speakerConfig.gender,
+          { glossary: terms, style: translationOptions },
+        );
+        await recordUsage(usageKey, "translateChars", text.length);
+        send({ type: "translation", text: translatedText, warning });
+
+        // Sequential so chunks arrive in playback order
+        const chunks = splitForTts(applyPronunciations(translatedText, terms));
+        await recordUsage(usageKey, "ttsChars", translatedText.length);
+        for (let i = 0; i < chunks.length; i++) {
+          const audioBase64 = await textToSpeech(
+            chunks[i],
+            targetLanguage,
+            speakerConfig,
+          );
+          send({
+            type: "audio",
+            index: i + 1,
+            total: chunks.length,
+            audioBase64,
+          });
+        }
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error("Live Segment Error:", message);
+        send({ type: "error", message });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireScope } from "@/lib/auth";
+import { getBreakerStates } from "@/lib/upstream";
+import { getCacheStats } from "@/lib/resultCache";
+
+export const dynamic = "force-dynamic";
+
+// Upstream circuit breaker states, so the UI can flag a degraded service,
+// plus result cache metrics
+export async function GET(req: NextRequest) {
+  const auth = requireScope(req);
+  if (auth instanceof NextResponse) return auth;
+
+  const services = getBreakerStates();
+  return NextResponse.json({
+    degraded: services.some((s) => s.state !== "closed"),
+    services,
+    cache: getCacheStats(),
+  });
+}
@@ -1,33 +1,177 @@
+import { createHash, randomUUID } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
 import {
   speechToText,
-  translateText,
-  textToSpeech,
   initiateBatchJob,
   getUploadUrl,
   uploadToAzure,
+  uploadBlock,
+  listUncommittedBlocks,
+  commitBlocks,
   startBatchJob,
-  getRandomSpeakerConfig,
-  mergeWavBase64,
+  resolveSpeakerConfig,
 } from "@/lib/sarvam";
+import { createJob, failJob, transitionJob } from "@/lib/jobStore";
+import { translateAndSynthesize } from "@/lib/pipeline";
+import {
+  groupIntoSegments,
+  offsetSegments,
+  type TimedWord,
+} from "@/lib/segments";
+import { parseVoiceSelection, type VoiceSelection } from "@/lib/voices";
+import {
+  parseSourceLanguage,
+  parseTargetLanguages,
+  resolveSourceLanguage,
+} from "@/lib/languages";
+import {
+  parseTranslationOptions,
+  type TranslationOptions,
+} from "@/lib/translationOptions";
+import { preprocessAudio } from "@/lib/audioPreprocess";
+import { routeAudio, type LongAudioMode } from "@/lib/sttRouting";
+import { transcribeInPieces } from "@/lib/splitTranscribe";
+import {
+  UPLOAD_BLOCK_MAX_BYTES,
+  UploadAccessError,
+  createUploadGrant,
+  resolveUpload,
+  validateBlockId,
+  validateBlockList,
+} from "@/lib/uploadGrants";
+import { resolveGlossary, type GlossarySnapshot } from "@/lib/glossaryStore";
+import { requireScope, workspaceOf } from "@/lib/auth";
+import {
+  checkQuotas,
+  enforceLimits,
+  recordUsage,
+  usageKeyFor,
+} from "@/lib/rateLimit";
+import { upstreamErrorResponse } from "@/lib/upstream";
+import { CancelledError } from "@/lib/taskPool";
 
 export const dynamic = "force-dynamic";
 
+function badRequest(error: string, err: unknown) {
+  return NextResponse.json(
+    { error, details: err instanceof Error ? err.message : String(err) },
+    { status: 400 },
+  );
+}
+
+// Every paid stage must have some quota left before a job is started
+const ANY_QUOTA = { audioMinutes: 0, translateChars: 0, ttsChars: 0 };
+
+// 4xx for rejected upload tokens, block ids and limits; rethrow the rest
+function uploadDenied(err: unknown) {
+  if (!(err instanceof UploadAccessError)) throw err;
+  return NextResponse.json({ error: err.message }, { status: err.status });
+}
+
 export async function POST(req: NextRequest) {
+  const auth = requireScope(req, "translate");
+  if (auth instanceof NextResponse) return auth;
+  const usageKey = usageKeyFor(auth, req);
+
   try {
     // Check if json request (for direct cloud upload bypass)
     if (req.headers.get("content-type")?.includes("application/json")) {
       const body = await req.json();
 
-      // Step 1: Initiate job and get upload URL
+      // Step 1: Initiate job and get an upload token (the URL stays here)
       if (body.action === "initiate") {
-        const { job_id } = await initiateBatchJob(body.fileName);
-        const uploadUrl = await getUploadUrl(job_id, body.fileName);
-        return NextResponse.json({ jobId: job_id, uploadUrl });
+        const limited = await enforceLimits(auth, usageKey, ANY_QUOTA);
+        if (limited) return limited;
+
+        let targetLanguages: string[];
+        try {
+          targetLanguages = parseTargetLanguages(
+            body.targetLanguages,
+            body.targetLanguage,
+          );
+        } catch (err: unknown) {
+          return badRequest("Invalid target language", err);
+        }
+        if (targetLanguages.length === 0) {
+          return NextResponse.json(
+            { error: "No target language provided" },
+            { status: 400 },
+          );
+        }
+        let voice: VoiceSelection;
+        try {
+          voice = parseVoiceSelection(body.voice);
+        } catch (err: unknown) {
+          return badRequest("Invalid voice", err);
+        }
+        let sourceLanguage: string | undefined;
+        try {
+          sourceLanguage = parseSourceLanguage(body.sourceLanguage);
+        } catch (err: unknown) {
+          return badRequest("Invalid source language", err);
+        }
+        let translationOptions: TranslationOptions;
+        try {
+          translationOptions = parseTranslationOptions(body.translationOptions);
+        } catch (err: unknown) {
+          return badRequest("Invalid translation options", err);
+        }
+        let glossary: GlossarySnapshot | undefined;
+        try {
+          glossary = await resolveGlossary(workspaceOf(auth), body.glossaryId);
+        } catch (err: unknown) {
+          return badRequest("Invalid glossary", err);
+        }
+        const diarization = body.diarization === true;
+        const { job_id } = await initiateBatchJob(body.fileName, {
+          diarization,
+          numSpeakers: (diarization && Number(body.numSpeakers)) || undefined,
+          languageCode: sourceLanguage,
+        });
+        const upload = createUploadGrant(
+          await getUploadUrl(job_id, body.fileName),
+        );
+        await createJob({
+          id: job_id,
+          mode: "batch",
+          fileName: body.fileName,
+          mimeType: body.mimeType || "audio/wav",
+          targetLanguage: targetLanguages[0],
+          targetLanguages,
+          speakerConfig: resolveSpeakerConfig(voice, job_id),
+          diarization,
+          upload,
+          usageKey,
+          glossary,
+          translationOptions,
+          requestedSourceLanguage: sourceLanguage,
+        });
+        return NextResponse.json({
+          jobId: job_id,
+          uploadToken: upload.token,
+          expiresAt: upload.expiresAt,
+        });
       }
 
       // Step 2: Start the batch job after client uploads directly
       if (body.action === "start") {
+        try {
+          await resolveUpload(body.jobId, body.uploadToken, "uploaded");
+        } catch (err: unknown) {
+          return uploadDenied(err);
+        }
+        const job = await transitionJob(
+          body.jobId,
+          ["uploaded"],
+          "transcribing",
+          { upload: undefined },
+        );
+        if (!job) {
+          return NextResponse.json(
+            { error: "Job not found or already started" },
+            { status: 409 },
+          );
+        }
         await startBatchJob(body.jobId);
         return NextResponse.json({
           success: true,
@@ -37,29 +181,50 @@ export async function POST(req: NextRequest) {
         });
       }
 
+      // Resume support: which blocks of an interrupted upload already landed
+      if (body.action === "uploadStatus") {
+        let uploadUrl: string;
+        try {
+          ({ uploadUrl } = await resolveUpload(body.jobId, body.uploadToken));
+        } catch (err: unknown) {
+          return uploadDenied(err);
+        }
+        try {
+          const blocks = await listUncommittedBlocks(uploadUrl);
+          return NextResponse.json({ blocks });
+        } catch (statusError) {
+          console.error("Azure Block List Error:", statusError);
+          return NextResponse.json(
+            { error: "Failed to read upload progress from Azure." },
+            { status: 502 },
+          );
+        }
+      }
+
       // Step 3 (Chunked fallback proxy): Commit blocks
       if (body.action === "commitUpload") {
-        const { uploadUrl, blockIds, mimeType } = body;
-
-        const blockListXml = `<?xml version="1.0" encoding="utf-8"?><BlockList>${blockIds.map((id: string) => `<Latest>${id}</Latest>`).join("")}</BlockList>`;
-
-        const commitRes = await fetch(`${uploadUrl}&comp=blocklist`, {
-          method: "PUT",
-          headers: {
-            "x-ms-blob-content-type": mimeType,
-            "Content-Type": "application/xml",
-          },
-          body: blockListXml,
-        });
+        let uploadUrl: string;
+        let blockIds: string[];
+        let mimeType: string;
+        try {
+          const upload = await resolveUpload(body.jobId, body.uploadToken);
+          uploadUrl = upload.uploadUrl;
+          mimeType = upload.job.mimeType;
+          blockIds = validateBlockList(body.blockIds);
+        } catch (err: unknown) {
+          return uploadDenied(err);
+        }
 
-        if (!commitRes.ok) {
-          const errText = await commitRes.text();
-          console.error("Azure Commit Error:", errText);
+        try {
+          await commitBlocks(uploadUrl, blockIds, mimeType);
+        } catch (commitError) {
+          console.error("Azure Commit Error:", commitError);
           return NextResponse.json(
             { error: "Failed to commit chunked upload to Azure." },
             { status: 500 },
           );
         }
+        await transitionJob(body.jobId, ["created"], "uploaded");
         return NextResponse.json({ success: true });
       }
     }
@@ -69,8 +234,6 @@ export async function POST(req: NextRequest) {
     // Chunked Upload Proxy Route
     const action = formData.get("action") as string | null;
     if (action === "uploadChunk") {
-      const uploadUrl = formData.get("uploadUrl") as string;
-      const blockId = formData.get("blockId") as string;
       const chunk = formData.get("chunk") as File | null;
 
       if (!chunk)
@@ -79,22 +242,43 @@ export async function POST(req: NextRequest) {
           { status: 400 },
         );
 
+      let uploadUrl: string;
+      let blockId: string;
+      try {
+        ({ uploadUrl } = await resolveUpload(
+          formData.get("jobId"),
+          formData.get("uploadToken"),
+        ));
+        blockId = validateBlockId(formData.get("blockId"));
+        if (chunk.size > UPLOAD_BLOCK_MAX_BYTES) {
+          throw new UploadAccessError(
+            `Chunk is ${chunk.size} bytes, max ${UPLOAD_BLOCK_MAX_BYTES}`,
+            413,
+          );
+        }
+      } catch (err: unknown) {
+        return uploadDenied(err);
+      }
+
       const chunkBuffer = Buffer.from(await chunk.arrayBuffer());
 
-      const chunkRes = await fetch(
-        `${uploadUrl}&comp=block&blockid=${encodeURIComponent(blockId)}`,
-        {
-          method: "PUT",
-          headers: {
-            "Content-Length": chunkBuffer.length.toString(),
+      // Verify the browser -> server hop, then let Azure verify the next one
+      const md5 = createHash("md5").update(chunkBuffer).digest("base64");
+      const expectedMd5 = formData.get("md5") as string | null;
+      if (expectedMd5 && expectedMd5 !== md5) {
+        return NextResponse.json(
+          {
+            error: "Chunk checksum mismatch",
+            details: `Expected ${expectedMd5}, received ${md5}`,
           },
-          body: chunkBuffer,
-        },
-      );
+          { status: 422 },
+        );
+      }
 
-      if (!chunkRes.ok) {
-        const errText = await chunkRes.text();
-        console.error("Azure Chunk Upload Error:", errText);
+      try {
+        await uploadBlock(uploadUrl, blockId, chunkBuffer, md5);
+      } catch (chunkError) {
+        console.error("Azure Chunk Upload Error:", chunkError);
         return NextResponse.json(
           { error: "Failed to upload chunk to Azure." },
           { status: 500 },
@@ -103,8 +287,60 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ success: true });
     }
 
+    // Upload steps above belong to an admitted job; new work is limited
+    const limited = await enforceLimits(auth, usageKey, ANY_QUOTA);
+    if (limited) return limited;
+
     const audioFile = formData.get("audio") as File | null;
-    const targetLanguage = formData.get("targetLanguage") as string | null;
+    let targetLanguages: string[];
+    try {
+      targetLanguages = parseTargetLanguages(
+        formData.getAll("targetLanguages"),
+        formData.get("targetLanguage"),
+      );
+    } catch (err: unknown) {
+      return badRequest("Invalid target language", err);
+    }
+    const targetLanguage = targetLanguages[0];
+    // Unset lets STT detect the spoken language
+    let sourceLanguage: string | undefined;
+    try {
+      sourceLanguage = parseSourceLanguage(formData.get("sourceLanguage"));
+    } catch (err: unknown) {
+      return badRequest("Invalid source language", err);
+    }
+    // Speaker diarization is only available from the batch API
+    const diarization = formData.get("diarization") === "true";
+    const numSpeakers = Number(formData.get("numSpeakers")) || undefined;
+    // Clips over the sync limit: a batch job, or parallel sync requests
+    const longAudio: LongAudioMode =
+      formData.get("longAudio") === "split" ? "split" : "batch";
+
+    let voice: VoiceSelection;
+    try {
+      voice = parseVoiceSelection(formData.get("voice"));
+    } catch (err: unknown) {
+      return badRequest("Invalid voice", err);
+    }
+
+    let translationOptions: TranslationOptions;
+    try {
+      translationOptions = parseTranslationOptions(
+        formData.get("translationOptions"),
+      );
+    } catch (err: unknown) {
+      return badRequest("Invalid translation options", err);
+    }
+
+    let glossary: GlossarySnapshot | undefined;
+    try {
+      glossary = await resolveGlossary(
+        workspaceOf(auth),
+        formData.get("glossaryId"),
+      );
+    } catch (err: unknown) {
+      return badRequest("Invalid glossary", err);
+    }
 
     if (!audioFile) {
       return NextResponse.json(
@@ -120,53 +356,135 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Convert File to Buffer
+    // Convert File to Buffer, then decode, clean up and measure it for STT
     const arrayBuffer = await audioFile.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-    const mimeType = audioFile.type || "audio/wav";
+    const prepared = await preprocessAudio(
+      Buffer.from(arrayBuffer),
+      audioFile.type || "audio/wav",
+      audioFile.name || "audio.wav",
+    );
+    const { buffer, mimeType, fileName, durationSeconds, offsetSeconds } =
+      prepared;
 
-    // Approximate check for 30s (uncompressed PCM 16k mono is ~1MB, compressed is less)
-    // Most audio files > 2MB are likely > 30s. Let's be safer and just check the sync result,
-    // or trigger batch if the file brand is large.
-    const audioSizeMB = audioFile.size / (1024 * 1024);
-    const fileName = audioFile.name || "audio.wav";
+    if (durationSeconds) {
+      const overQuota = await checkQuotas(auth, usageKey, {
+        audioMinutes: durationSeconds / 60,
+      });
+      if (overQuota) return overQuota;
+    }
+
+    // Routed on the upload as the client sent it, the same input the browser
+    // routes on; the decoded PCM is only used for its duration and splitting
+    const route = routeAudio({
+      durationSeconds,
+      sizeBytes: audioFile.size,
+      diarization,
+      longAudio,
+      splittable: mimeType === "audio/wav",
+    });
+    console.log(`Routing to ${route.mode} STT: ${route.reason}`);
 
     const handleBatchFallback = async () => {
-      console.log("Initiating Batch Job for long audio...");
-      const { job_id } = await initiateBatchJob(fileName);
+      console.log(
+        `Initiating Batch Job for ${diarization ? "diarization" : "long audio"}...`,
+      );
+      const { job_id } = await initiateBatchJob(fileName, {
+        diarization,
+        numSpeakers,
+        languageCode: sourceLanguage,
+      });
       const uploadUrl = await getUploadUrl(job_id, fileName);
+      await createJob({
+        id: job_id,
+        mode: "batch",
+        fileName,
+        mimeType,
+        targetLanguage,
+        targetLanguages,
+        speakerConfig: resolveSpeakerConfig(voice, job_id),
+        diarization,
+        durationSeconds,
+        audioOffsetSeconds: offsetSeconds,
+        usageKey,
+        glossary,
+        translationOptions,
+        requestedSourceLanguage: sourceLanguage,
+      });
 
-      console.log(`Uploading ${fileName} to Azure...`);
-      await uploadToAzure(uploadUrl, buffer, mimeType);
+      try {
+        console.log(`Uploading ${fileName} to Azure...`);
+        await uploadToAzure(uploadUrl, buffer, mimeType);
+        await transitionJob(job_id, ["created"], "uploaded");
 
-      console.log("Starting batch job...");
-      await startBatchJob(job_id);
+        console.log("Starting batch job...");
+        await startBatchJob(job_id);
+        await transitionJob(job_id, ["uploaded"], "transcribing");
+      } catch (err: unknown) {
+        await failJob(job_id, err instanceof Error ? err.message : String(err));
+        throw err;
+      }
 
       return NextResponse.json({
         jobId: job_id,
         fileName: fileName,
         status: "processing",
-        message: "Long audio detected. Processing started...",
+        message: diarization
+          ? "Speaker diarization requested. Processing started..."
+          : "Long audio detected. Processing started...",
       });
     };
 
-    if (audioSizeMB > 1.0) {
+    if (route.mode === "batch") {
       return await handleBatchFallback();
     }
 
-    // Step 1: Speech-to-Text
-    console.log("Sending to STT...");
+    // Resolve the chosen voice; a random pick is seeded by the job id
+    const jobId = randomUUID();
+    const speakerConfig = resolveSpeakerConfig(voice, jobId);
+    console.log(
+      `Selected Speaker: ${speakerConfig.name} (${speakerConfig.gender}), Pace: ${speakerConfig.pace}`,
+    );
+
+    await createJob({
+      id: jobId,
+      mode: route.mode,
+      fileName,
+      mimeType,
+      targetLanguage,
+      targetLanguages,
+      speakerConfig,
+      durationSeconds,
+      usageKey,
+      glossary,
+      translationOptions,
+      requestedSourceLanguage: sourceLanguage,
+    });
+    await transitionJob(jobId, ["created"], "transcribing");
+
+    // Step 1: Speech-to-Text, in parallel pieces when the clip is too long
+    console.log(`Sending to ${route.mode} STT...`);
     let originalText = "";
-    let languageCode = "hi-IN";
+    let language: ReturnType<typeof resolveSourceLanguage>;
+    let words: TimedWord[] = [];
 
     try {
-      const sttResult = await speechToText(buffer, mimeType);
+      const sttResult =
+        route.mode === "split"
+          ? await transcribeInPieces(buffer, req.signal, sourceLanguage)
+          : await speechToText(buffer, mimeType, sourceLanguage);
       originalText = sttResult.text;
-      languageCode = sttResult.languageCode;
+      language = resolveSourceLanguage(sourceLanguage, sttResult);
+      words = sttResult.words ?? [];
+      await recordUsage(
+        usageKey,
+        "audioMinutes",
+        (durationSeconds ?? words.at(-1)?.end ?? 0) / 60,
+      );
     } catch (sttError: unknown) {
       const errStr =
         sttError instanceof Error ? sttError.message : String(sttError);
-      // Fallback if Sarvam complains about audio duration
+      // Last resort when the duration was unknown or misread: Sarvam
+      // rejects long audio, so retry on the batch API
       if (
         errStr.toLowerCase().includes("duration greater than 30 seconds") ||
         errStr.toLowerCase().includes("too long")
@@ -174,92 +492,70 @@ export async function POST(req: NextRequest) {
         console.log(
           "STT failed due to duration (>30s), automatically falling back to batch API...",
         );
+        await failJob(jobId, "Audio longer than 30s, moved to batch API.");
         return await handleBatchFallback();
       }
+      await failJob(jobId, errStr);
       throw sttError; // Re-throw other errors
     }
 
     if (!originalText) {
+      await failJob(jobId, "Empty transcript");
       throw new Error("Could not transcribe audio. Result was empty.");
     }
 
-    // Get dynamic natural speaker configuration
-    const speakerConfig = getRandomSpeakerConfig();
-    console.log(
-      `Selected Speaker: ${speakerConfig.name} (${speakerConfig.gender}), Pace: ${speakerConfig.pace}`,
-    );
-
-    // Step 2: Translate Text
-    console.log(`Translating text to ${targetLanguage}...`);
-    let translatedText = "";
-    let warningMessage: string | undefined = undefined;
-
-    try {
-      translatedText = await translateText(
+    // Step 2 & 3: Translate Text, then Text-to-Speech
+    const translating = await transitionJob(
+      jobId,
+      ["transcribing"],
+      "translating",
+      {
         originalText,
-        targetLanguage,
-        languageCode,
-        speakerConfig.gender,
-      );
-    } catch (err: unknown) {
-      const errStr = err instanceof Error ? err.message : String(err);
-      if (errStr.includes("Source and target languages must be different")) {
-        console.log(
-          "Source and target languages are the same, skipping translation.",
-        );
-        translatedText = originalText;
-        warningMessage =
-          "Please change language, it is the same as the uploaded audio.";
-      } else {
-        throw err;
-      }
-    }
-
-    if (!translatedText) {
-      throw new Error("Translation failed. Result was empty.");
-    }
-
-    // Step 3: Text-to-Speech
-    console.log(`Converting translated text to speech...`);
-    let audioParts: string[] = [];
-    // Bulbul v3 supports up to 500 characters per call
-    if (translatedText.length > 500) {
-      const chunks = translatedText.match(/[\s\S]{1,490}(\s|$)/g) || [
-        translatedText.substring(0, 500),
-      ];
-      const validChunks = chunks.filter((c) => c.trim());
-      audioParts = await Promise.all(
-        validChunks.map((chunk) =>
-          textToSpeech(chunk.trim(), targetLanguage, speakerConfig),
-        ),
-      );
-    } else {
-      const base64 = await textToSpeech(
-        translatedText,
-        targetLanguage,
-        speakerConfig,
-      );
-      audioParts = [base64];
-    }
-
-    if (audioParts.length === 0) {
-      throw new Error("Text-to-Speech failed. Result was empty.");
+        sourceLanguage: language.sourceLanguage,
+        detectedLanguage: language.detectedLanguage,
+        languageWarning: language.warning,
+        // Timestamps count from the trimmed start; line them up with the upload
+        segments: offsetSegments(groupIntoSegments(words), offsetSeconds),
+      },
+    );
+    if (!translating) {
+      throw new Error(`Job ${jobId} left the transcribing state unexpectedly.`);
     }
-
-    // Merge the WAV chunks into a single valid base64 audio string
-    const mergedAudioBase64 = mergeWavBase64(audioParts);
+    console.log(`Translating text to ${targetLanguages.join(", ")}...`);
+    // Abandoned requests stop queuing translation and TTS chunks
+    const job = await translateAndSynthesize(translating, req.signal);
 
     // Return the required structure
     return NextResponse.json({
+      jobId,
       originalText,
-      translatedText,
-      audioBase64: mergedAudioBase64,
-      ...(warningMessage ? { warning: warningMessage } : {}),
+      translatedText: job.translatedText,
+      audioBase64: job.audioBase64,
+      hasSubtitles: Boolean(job.segments?.length),
+      voice: job.speakerConfig,
+      translationOptions: job.translationOptions,
+      sourceLanguage: job.sourceLanguage,
+      detectedLanguage: job.detectedLanguage,
+      ...(job.languageWarning ? { languageWarning: job.languageWarning } : {}),
+      translations: job.translations?.map(
+        ({ language, translatedText, audioBase64, warning }) => ({
+          language,
+          translatedText,
+          audioBase64,
+          warning,
+        }),
+      ),
+      ...(job.warning ? { warning: job.warning } : {}),
     });
   } catch (error: unknown) {
-    let errorMsg = error instanceof Error ? error.message : String(error);
+    const errorMsg = error instanceof Error ? error.message : String(error);
     console.error("API Route Error:", errorMsg);
 
+    if (error instanceof CancelledError) {
+      return NextResponse.json({ error: "Job cancelled" }, { status: 409 });
+    }
+    const degraded = upstreamErrorResponse(error);
+    if (degraded) return degraded;
     return NextResponse.json(
       {
         error: "Translation failed",
@@ -0,0 +1,156 @@
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { resolveSpeakerConfig } from "@/lib/sarvam";
+import { createJob, transitionJob } from "@/lib/jobStore";
+import { translateAndSynthesize } from "@/lib/pipeline";
+import { parseVoiceSelection, type VoiceSelection } from "@/lib/voices";
+import { parseSourceLanguage, parseTargetLanguages } from "@/lib/languages";
+import {
+  parseTranslationOptions,
+  type TranslationOptions,
+} from "@/lib/translationOptions";
+import { resolveGlossary, type GlossarySnapshot } from "@/lib/glossaryStore";
+import { requireScope, workspaceOf } from "@/lib/auth";
+import { enforceLimits, usageKeyFor } from "@/lib/rateLimit";
+import { upstreamErrorResponse } from "@/lib/upstream";
+import { CancelledError } from "@/lib/taskPool";
+
+export const dynamic = "force-dynamic";
+
+function badRequest(error: string, err: unknown) {
+  return NextResponse.json(
+    { error, details: err instanceof Error ? err.message : String(err) },
+    { status: 400 },
+  );
+}
+
+/**
+ * Translates typed or pasted text and, unless `speak` is false, speaks it.
+ * Takes the same targetLanguage(s), sourceLanguage, voice, glossaryId and
+ * translationOptions as /api/translate-audio, and answers in the same shape,
+ * so the job can be revised afterwards like a recording.
+ */
+export async function POST(req: NextRequest) {
+  const auth = requireScope(req, "translate");
+  if (auth instanceof NextResponse) return auth;
+  const usageKey = usageKeyFor(auth, req);
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const text = typeof body?.text === "string" ? body.text.trim() : "";
+  if (!text) {
+    return NextResponse.json({ error: "No text provided" }, { status: 400 });
+  }
+  const skipSpeech = body.speak === false;
+
+  let targetLanguages: string[];
+  try {
+    targetLanguages = parseTargetLanguages(
+      body.targetLanguages,
+      body.targetLanguage,
+    );
+  } catch (err: unknown) {
+    return badRequest("Invalid target language", err);
+  }
+  if (targetLanguages.length === 0) {
+    return NextResponse.json(
+      { error: "No target language provided" },
+      { status: 400 },
+    );
+  }
+  // Unset lets Translate detect the language
+  let sourceLanguage: string | undefined;
+  try {
+    sourceLanguage = parseSourceLanguage(body.sourceLanguage);
+  } catch (err: unknown) {
+    return badRequest("Invalid source language", err);
+  }
+  let voice: VoiceSelection;
+  try {
+    voice = parseVoiceSelection(body.voice);
+  } catch (err: unknown) {
+    return badRequest("Invalid voice", err);
+  }
+  let translationOptions: TranslationOptions;
+  try {
+    translationOptions = parseTranslationOptions(body.translationOptions);
+  } catch (err: unknown) {
+    return badRequest("Invalid translation options", err);
+  }
+  let glossary: GlossarySnapshot | undefined;
+  try {
+    glossary = await resolveGlossary(workspaceOf(auth), body.glossaryId);
+  } catch (err: unknown) {
+    return badRequest("Invalid glossary", err);
+  }
+
+  const limited = await enforceLimits(auth, usageKey, {
+    translateChars: text.length * targetLanguages.length,
+    ...(skipSpeech ? {} : { ttsChars: 0 }),
+  });
+  if (limited) return limited;
+
+  try {
+    const jobId = randomUUID();
+    await createJob({
+      id: jobId,
+      mode: "text",
+      fileName: "text.txt",
+      mimeType: "text/plain",
+      targetLanguage: targetLanguages[0],
+      targetLanguages,
+      speakerConfig: resolveSpeakerConfig(voice, jobId),
+      usageKey,
+      glossary,
+      translationOptions,
+      requestedSourceLanguage: sourceLanguage,
+      skipSpeech,
+    });
+    const translating = await transitionJob(jobId, ["created"], "translating", {
+      originalText: text,
+      sourceLanguage,
+    });
+    if (!translating) {
+      throw new Error(`Job ${jobId} left the created state unexpectedly.`);
+    }
+    console.log(`Translating text to ${targetLanguages.join(", ")}...`);
+    const job = await translateAndSynthesize(translating, req.signal);
+
+    return NextResponse.json({
+      jobId,
+      originalText: text,
+      translatedText: job.translatedText,
+      audioBase64: job.audioBase64,
+      hasSubtitles: false,
+      voice: job.speakerConfig,
+      translationOptions: job.translationOptions,
+      sourceLanguage: job.sourceLanguage,
+      translations: job.translations?.map(
+        ({ language, translatedText, audioBase64, warning }) => ({
+          language,
+          translatedText,
+          audioBase64,
+          warning,
+        }),
+      ),
+      ...(job.warning ? { warning: job.warning } : {}),
+    });
+  } catch (error: unknown) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.error("Translate Text Route Error:", errorMsg);
+
+    if (error instanceof CancelledError) {
+      return NextResponse.json({ error: "Job cancelled" }, { status: 409 });
+    }
+    const degraded = upstreamErrorResponse(error);
+    if (degraded) return degraded;
+    return NextResponse.json(
+      { error: "Translation failed", details: errorMsg },
+      { status: 500 },
+    );
+  }
+}
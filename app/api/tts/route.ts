@@ -1,9 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
-import { textToSpeech } from "@/lib/sarvam";
+import { resolveSpeakerConfig } from "@/lib/sarvam";
+import { synthesizeSpeech } from "@/lib/pipeline";
+import { getJob } from "@/lib/jobStore";
+import { parseVoiceSelection } from "@/lib/voices";
+import { applyPronunciations, termsFor } from "@/lib/glossary";
+import { resolveGlossary, type GlossarySnapshot } from "@/lib/glossaryStore";
+import { requireScope, workspaceOf } from "@/lib/auth";
+import { enforceLimits, recordUsage, usageKeyFor } from "@/lib/rateLimit";
+import { upstreamErrorResponse } from "@/lib/upstream";
 
 export async function POST(req: NextRequest) {
+  const auth = requireScope(req, "tts");
+  if (auth instanceof NextResponse) return auth;
+
   try {
-    const { text, targetLanguage } = await req.json();
+    const { text, targetLanguage, voice, jobId, glossaryId } = await req.json();
 
     if (!text || !targetLanguage) {
       return NextResponse.json(
@@ -12,11 +23,68 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const audioBase64 = await textToSpeech(text, targetLanguage);
+    const usageKey = usageKeyFor(auth, req);
+    const limited = await enforceLimits(auth, usageKey, {
+      ttsChars: String(text).length,
+    });
+    if (limited) return limited;
+
+    // An explicit voice or glossary wins; otherwise reuse the job's so
+    // replays match. Someone else's job is ignored like a missing one.
+    const found = jobId ? await getJob(jobId) : null;
+    const job =
+      found && (!found.usageKey || found.usageKey === usageKey) ? found : null;
+    let glossary: GlossarySnapshot | undefined;
+    try {
+      glossary = glossaryId
+        ? await resolveGlossary(workspaceOf(auth), glossaryId)
+        : job?.glossary;
+    } catch (err: unknown) {
+      return NextResponse.json(
+        {
+          error: "Invalid glossary",
+          details: err instanceof Error ? err.message : String(err),
+        },
+        { status: 400 },
+      );
+    }
+
+    let speakerConfig;
+    try {
+      speakerConfig =
+        (!voice && job?.speakerConfig) ||
+        resolveSpeakerConfig(
+          parseVoiceSelection(voice),
+          jobId || `${targetLanguage}:${text}`,
+        );
+    } catch (err: unknown) {
+      return NextResponse.json(
+        {
+          error: "Invalid voice",
+          details: err instanceof Error ? err.message : String(err),
+        },
+        { status: 400 },
+      );
+    }
+
+    // Chunked at sentence boundaries to stay under Bulbul's 500 character limit
+    const audioBase64 = await synthesizeSpeech(
+      applyPronunciations(
+        String(text),
+        termsFor(glossary?.terms, targetLanguage),
+      ),
+      targetLanguage,
+      speakerConfig,
+      undefined,
+      req.signal,
+    );
+    await recordUsage(usageKey, "ttsChars", String(text).length);
 
-    return NextResponse.json({ audioBase64 });
+    return NextResponse.json({ audioBase64, voice: speakerConfig });
   } catch (error: unknown) {
     console.error("TTS Route Error:", error);
+    const degraded = upstreamErrorResponse(error);
+    if (degraded) return degraded;
     return NextResponse.json(
       { error: "Failed to generate TTS audio" },
       { status: 500 },
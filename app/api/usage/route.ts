@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireScope } from "@/lib/auth";
+import { consumeRateLimit, getUsage, usageKeyFor } from "@/lib/rateLimit";
+
+export const dynamic = "force-dynamic";
+
+// The caller's request budget and today's quota usage, for the UI
+export async function GET(req: NextRequest) {
+  const auth = requireScope(req);
+  if (auth instanceof NextResponse) return auth;
+
+  const usageKey = usageKeyFor(auth, req);
+  // A zero-cost take reads the bucket without spending from it
+  const { limit, remaining } = await consumeRateLimit(usageKey, 0);
+  const quotas = await getUsage(usageKey, auth.quotas);
+
+  const resetsAt = new Date();
+  resetsAt.setUTCHours(24, 0, 0, 0);
+  return NextResponse.json({
+    rateLimit: { limit, remaining },
+    quotas,
+    resetsAt: resetsAt.toISOString(),
+  });
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DEFAULT_VOICE,
+  RANDOM_VOICE,
+  SAMPLE_RATES,
+  VOICE_LIMITS,
+  VOICES,
+} from "@/lib/voices";
+import { requireScope } from "@/lib/auth";
+
+// Voice catalog for the picker: every Bulbul speaker with its gender, plus
+// the ranges each TTS option accepts
+export async function GET(req: NextRequest) {
+  const auth = requireScope(req, "voices:read");
+  if (auth instanceof NextResponse) return auth;
+
+  return NextResponse.json({
+    voices: VOICES,
+    random: RANDOM_VOICE,
+    sampleRates: SAMPLE_RATES,
+    limits: VOICE_LIMITS,
+    default: DEFAULT_VOICE,
+  });
+}
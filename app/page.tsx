@@ -1,10 +1,42 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { LanguageSelector } from "@/components/LanguageSelector";
 import { AudioRecorder } from "@/components/AudioRecorder";
 import { AudioUploader } from "@/components/AudioUploader";
+import { LiveTranscript, type LiveSegment } from "@/components/LiveTranscript";
+import { VoicePicker } from "@/components/VoicePicker";
+import { GlossaryPicker } from "@/components/GlossaryPicker";
+import { TranslationOptionsPicker } from "@/components/TranslationOptionsPicker";
+import { SignIn } from "@/components/SignIn";
+import { UsageMeter } from "@/components/UsageMeter";
+import { ServiceStatus } from "@/components/ServiceStatus";
+import { EditableText } from "@/components/EditableText";
+import type { LiveServerMessage } from "@/lib/liveProtocol";
+import type { SpeakerConfig } from "@/lib/providers";
+import { DEFAULT_VOICE, type VoiceSelection } from "@/lib/voices";
+import {
+  DEFAULT_TRANSLATION_OPTIONS,
+  type TranslationOptions,
+} from "@/lib/translationOptions";
+import {
+  AUTO_DETECT,
+  languageName,
+  type DetectedLanguage,
+} from "@/lib/languages";
+import { parseAudioDuration } from "@/lib/audioDuration";
+import { API_UPLOAD_MAX_BYTES, routeAudio } from "@/lib/sttRouting";
+import {
+  UploadError,
+  clearUpload,
+  fetchWithRetry,
+  loadUpload,
+  saveUpload,
+  uploadBlocks,
+  uploadKey,
+  type SavedUpload,
+} from "@/lib/resumableUpload";
 import {
   PlayCircle,
   Type,
@@ -12,11 +44,46 @@ import {
   Sparkles,
   AlertTriangle,
   Trash2,
+  Download,
 } from "lucide-react";
 
+interface TranslationResult {
+  language: string;
+  translatedText: string;
+  // Unset when a text run asked for no speech
+  audioBase64?: string;
+  warning?: string;
+  // Corrected by hand, so it has no subtitles
+  edited?: boolean;
+}
+
+// Any target may come back untranslated (same as the source language), and
+// language detection may disagree with the picked source
+const firstWarning = (data: {
+  warning?: string;
+  languageWarning?: string;
+  translations?: TranslationResult[];
+}) =>
+  [
+    data.languageWarning,
+    data.warning || data.translations?.find((t) => t.warning)?.warning,
+  ]
+    .filter(Boolean)
+    .join(" ") || null;
+
 export default function TranslatorPage() {
   const [targetLanguage, setTargetLanguage] = useState("hi-IN");
-  const [activeTab, setActiveTab] = useState<"record" | "upload">("record");
+  const [sourceLanguage, setSourceLanguage] = useState(AUTO_DETECT);
+  const [extraLanguages, setExtraLanguages] = useState<string[]>([]);
+  const [voice, setVoice] = useState<VoiceSelection>(DEFAULT_VOICE);
+  const [glossaryId, setGlossaryId] = useState<string | null>(null);
+  const [translationOptions, setTranslationOptions] =
+    useState<TranslationOptions>(DEFAULT_TRANSLATION_OPTIONS);
+  const [activeTab, setActiveTab] = useState<"record" | "upload" | "text">(
+    "record",
+  );
+  const [inputText, setInputText] = useState("");
+  const [speakText, setSpeakText] = useState(true);
 
   const [audioFile, setAudioFile] = useState<File | Blob | null>(null);
   const [audioUrl, setAudioUrl] = useState<string | null>(null); // To preview recorded audio if needed
@@ -27,14 +94,111 @@ export default function TranslatorPage() {
     total: number;
     message: string;
   } | null>(null);
+  const [stageMessage, setStageMessage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [warning, setWarning] = useState<string | null>(null);
 
+  const eventSourceRef = useRef<EventSource | null>(null);
+  // The run in progress, so it can be cancelled
+  const requestRef = useRef<AbortController | null>(null);
+  const jobIdRef = useRef<string | null>(null);
+  // Next check-job poll when the progress stream has dropped
+  const pollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const [multiSpeaker, setMultiSpeaker] = useState(false);
+  const [splitLongAudio, setSplitLongAudio] = useState(false);
+
+  const [liveMode, setLiveMode] = useState(false);
+  const [liveSegments, setLiveSegments] = useState<LiveSegment[]>([]);
+  const liveAudioQueueRef = useRef<string[]>([]);
+  const liveAudioRef = useRef<HTMLAudioElement | null>(null);
+
   const [result, setResult] = useState<{
+    jobId?: string;
     originalText: string;
     translatedText: string;
-    audioBase64: string;
+    audioBase64?: string;
+    hasSubtitles?: boolean;
+    voice?: SpeakerConfig;
+    translations?: TranslationResult[];
+    detectedLanguage?: DetectedLanguage;
   } | null>(null);
+  const [activeLanguage, setActiveLanguage] = useState<string | null>(null);
+
+  const [authState, setAuthState] = useState<
+    "checking" | "signed-in" | "signed-out"
+  >("checking");
+
+  useEffect(() => {
+    return () => eventSourceRef.current?.close();
+  }, []);
+
+  // The API needs a session (or runs open in dev); ask before showing the UI
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then((res) => setAuthState(res.ok ? "signed-in" : "signed-out"))
+      .catch(() => setAuthState("signed-out"));
+  }, []);
+
+  // Play streamed TTS chunks back to back in arrival order
+  const playNextLiveAudio = () => {
+    const audio = (liveAudioRef.current ??= new Audio());
+    if (!audio.paused && !audio.ended) return;
+    const next = liveAudioQueueRef.current.shift();
+    if (!next) return;
+    audio.src = `data:audio/wav;base64,${next}`;
+    audio.onended = playNextLiveAudio;
+    audio.play().catch((err) => console.error("Live playback failed:", err));
+  };
+
+  const updateLiveSegment = (segment: number, patch: Partial<LiveSegment>) => {
+    setLiveSegments((prev) => {
+      const existing = prev.find((s) => s.segment === segment);
+      if (!existing) {
+        return [...prev, { segment, ...patch }].sort(
+          (a, b) => a.segment - b.segment,
+        );
+      }
+      return prev.map((s) => (s.segment === segment ? { ...s, ...patch } : s));
+    });
+  };
+
+  const handleLiveMessage = (message: LiveServerMessage) => {
+    switch (message.type) {
+      case "ready":
+        setLiveSegments([]);
+        setResult(null);
+        setError(null);
+        setWarning(null);
+        liveAudioQueueRef.current = [];
+        break;
+      case "partial":
+        updateLiveSegment(message.segment, { partial: message.text });
+        break;
+      case "transcript":
+        updateLiveSegment(message.segment, { original: message.text });
+        if (message.languageWarning) setWarning(message.languageWarning);
+        break;
+      case "translation":
+        updateLiveSegment(message.segment, { translated: message.text });
+        if (message.warning) setWarning(message.warning);
+        break;
+      case "audio":
+        liveAudioQueueRef.current.push(message.audioBase64);
+        playNextLiveAudio();
+        break;
+      case "segment_done":
+        updateLiveSegment(message.segment, { done: true });
+        break;
+      case "error":
+        if (message.segment !== undefined) {
+          updateLiveSegment(message.segment, { error: message.message });
+        } else {
+          setError(message.message);
+        }
+        break;
+    }
+  };
 
   const handleAudioCapture = (fileOrBlob: File | Blob) => {
     setAudioFile(fileOrBlob);
@@ -57,114 +221,164 @@ export default function TranslatorPage() {
     setWarning(null);
   };
 
+  // Primary target first, then any extra targets picked for this run
+  const targetLanguages = () => [
+    targetLanguage,
+    ...extraLanguages.filter((code) => code !== targetLanguage),
+  ];
+
+  // Stop waiting on the current run and tell the server to drop its work
+  const cancelTranslate = () => {
+    requestRef.current?.abort();
+    eventSourceRef.current?.close();
+    eventSourceRef.current = null;
+    if (pollTimerRef.current) clearTimeout(pollTimerRef.current);
+    pollTimerRef.current = null;
+    const jobId = jobIdRef.current;
+    jobIdRef.current = null;
+    if (jobId) {
+      fetch(`/api/jobs/${encodeURIComponent(jobId)}`, {
+        method: "DELETE",
+      }).catch((err) => console.error("Failed to cancel job:", err));
+    }
+    setIsLoading(false);
+    setUploadProgress(null);
+    setStageMessage(null);
+    setWarning(null);
+  };
+
   const processTranslate = async () => {
     if (!audioFile) return;
 
+    const controller = new AbortController();
+    requestRef.current = controller;
+    jobIdRef.current = null;
     setIsLoading(true);
     setUploadProgress(null);
+    setStageMessage(null);
     setError(null);
     setWarning(null);
     setResult(null);
+    setActiveLanguage(null);
 
     try {
-      // VERCEL 4.5MB PAYLOAD BYPASS
-      // If file is large (> 4MB), bypass the Next.js API route completely
-      // by uploading directly to Azure from the browser.
-      const sizeMB = audioFile.size / (1024 * 1024);
-      if (sizeMB > 4.0) {
-        // 1. Get Job ID & Upload URL from our secure API
-        const initRes = await fetch("/api/translate-audio", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            action: "initiate",
-            fileName: (audioFile as File).name || "audio.wav",
-          }),
-        });
-
-        if (!initRes.ok) {
-          const errData = await initRes.json().catch(() => ({}));
-          throw new Error(
-            `Failed to initiate cloud upload: ${errData.error || initRes.statusText}`,
-          );
-        }
-
-        const { jobId, uploadUrl } = await initRes.json();
+      // Same routing policy as the server. Only files small enough for the
+      // API route need measuring; anything bigger is batch regardless.
+      const durationSeconds =
+        audioFile.size <= API_UPLOAD_MAX_BYTES
+          ? parseAudioDuration(new Uint8Array(await audioFile.arrayBuffer()))
+          : undefined;
+      const route = routeAudio({
+        durationSeconds,
+        sizeBytes: audioFile.size,
+        diarization: multiSpeaker,
+        longAudio: splitLongAudio ? "split" : "batch",
+      });
 
-        // 2. Upload in Chunks via Next.js Proxy (< 4.5MB per chunk to bypass Vercel limits)
-        // And since Next.js talks to Azure, we bypass Browser CORS limits.
-        setUploadProgress({
-          current: 0,
-          total: 1,
-          message: "Preparing secure direct upload...",
+      // VERCEL 4.5MB PAYLOAD BYPASS
+      // Large files bypass the Next.js API route completely by uploading
+      // directly to Azure from the browser.
+      if (route.upload === "direct") {
+        // 1. Get Job ID & Upload URL from our secure API, or pick up an
+        // interrupted upload of the same file with the same settings
+        const resumeKey = uploadKey(audioFile, {
+          targetLanguages: targetLanguages(),
+          diarization: multiSpeaker,
+          voice,
+          glossaryId,
+          translationOptions,
+          sourceLanguage,
         });
-
-        const CHUNK_SIZE = 2 * 1024 * 1024; // 2MB chunks
-        const totalChunks = Math.ceil(audioFile.size / CHUNK_SIZE);
-        const blockIds: string[] = [];
-
-        for (let i = 0; i < totalChunks; i++) {
+        let upload = loadUpload(resumeKey);
+        if (upload) {
           setUploadProgress({
-            current: i,
-            total: totalChunks,
-            message: `Uploading chunk ${i + 1} of ${totalChunks}...`,
+            current: 0,
+            total: 1,
+            message: "Resuming previous upload...",
           });
-          const start = i * CHUNK_SIZE;
-          const end = Math.min(start + CHUNK_SIZE, audioFile.size);
-          const chunk = audioFile.slice(start, end);
-
-          // Generate a valid block ID (must be base64 encoded and same length for all blocks)
-          const blockIdStr = `block-${i.toString().padStart(5, "0")}`;
-          const blockId = btoa(blockIdStr);
-          blockIds.push(blockId);
-
-          const chunkFormData = new FormData();
-          chunkFormData.append("action", "uploadChunk");
-          chunkFormData.append("uploadUrl", uploadUrl);
-          chunkFormData.append("blockId", blockId);
-          chunkFormData.append("chunk", chunk);
-
-          const chunkRes = await fetch("/api/translate-audio", {
+        } else {
+          const initRes = await fetch("/api/translate-audio", {
             method: "POST",
-            body: chunkFormData,
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              action: "initiate",
+              fileName: (audioFile as File).name || "audio.wav",
+              mimeType: audioFile.type || "audio/wav",
+              targetLanguages: targetLanguages(),
+              diarization: multiSpeaker,
+              voice,
+              glossaryId,
+              translationOptions,
+              sourceLanguage,
+            }),
           });
 
-          if (!chunkRes.ok) {
-            throw new Error(`Failed to upload chunk ${i + 1}`);
+          if (!initRes.ok) {
+            const errData = await initRes.json().catch(() => ({}));
+            throw new Error(
+              `Failed to initiate cloud upload: ${errData.error || initRes.statusText}`,
+            );
           }
+
+          upload = (await initRes.json()) as SavedUpload;
+          saveUpload(resumeKey, upload);
+          setUploadProgress({
+            current: 0,
+            total: 1,
+            message: "Preparing secure direct upload...",
+          });
         }
+        const { jobId, uploadToken } = upload;
+        jobIdRef.current = jobId;
 
-        // 3. Commit the chunks
-        setUploadProgress({
-          current: totalChunks,
-          total: totalChunks,
-          message: "Finalizing upload on cloud server...",
-        });
-        const commitRes = await fetch("/api/translate-audio", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            action: "commitUpload",
-            uploadUrl,
-            blockIds,
-            mimeType: audioFile.type || "audio/wav",
-          }),
-        });
+        try {
+          // 2. Upload in Chunks via Next.js Proxy (< 4.5MB per chunk to bypass Vercel limits)
+          // And since Next.js talks to Azure, we bypass Browser CORS limits.
+          // Blocks are checksummed and retried; ones already stored are skipped.
+          const blockIds = await uploadBlocks(
+            audioFile,
+            upload,
+            setUploadProgress,
+          );
 
-        if (!commitRes.ok) {
-          throw new Error("Failed to finalize file upload.");
+          // 3. Commit the chunks
+          setUploadProgress({
+            current: blockIds.length,
+            total: blockIds.length,
+            message: "Finalizing upload on cloud server...",
+          });
+          await fetchWithRetry("Finalizing file upload", () =>
+            fetch("/api/translate-audio", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({
+                action: "commitUpload",
+                jobId,
+                uploadToken,
+                blockIds,
+              }),
+            }),
+          );
+          clearUpload(resumeKey);
+        } catch (err: unknown) {
+          // Keep progress for transient failures so a retry resumes; drop it
+          // when the upload can't be continued (e.g. the URL expired)
+          if (err instanceof UploadError && !err.retryable) {
+            clearUpload(resumeKey);
+          }
+          throw err;
         }
 
         // 4. Mark the batch job as "Started" on Sarvam
         setUploadProgress({
-          current: totalChunks,
-          total: totalChunks,
+          current: 1,
+          total: 1,
           message: "Starting translation pipeline...",
         });
         const startRes = await fetch("/api/translate-audio", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ action: "start", jobId }),
+          body: JSON.stringify({ action: "start", jobId, uploadToken }),
         });
 
         if (!startRes.ok) {
@@ -174,19 +388,34 @@ export default function TranslatorPage() {
         // Upload is finished, we can drop the progress bar and show the "Analyizing Audio" spinner
         setUploadProgress(null);
 
-        // 4. Start polling for the result
-        pollJobStatus(jobId, (audioFile as File).name || "audio.wav");
-        return; // Polling will handle the rest
+        // 5. Follow progress until the result is ready
+        subscribeToJob(jobId);
+        return; // The progress stream will handle the rest
       }
 
       // STANDARD ROUTE: For smaller files underneath the Vercel limit
       const formData = new FormData();
       formData.append("audio", audioFile);
-      formData.append("targetLanguage", targetLanguage);
+      targetLanguages().forEach((code) =>
+        formData.append("targetLanguages", code),
+      );
+      if (multiSpeaker) formData.append("diarization", "true");
+      if (splitLongAudio) formData.append("longAudio", "split");
+      formData.append("voice", JSON.stringify(voice));
+      if (glossaryId) formData.append("glossaryId", glossaryId);
+      formData.append("sourceLanguage", sourceLanguage);
+      formData.append("translationOptions", JSON.stringify(translationOptions));
+      if (route.mode === "batch") {
+        setStageMessage(`Queuing batch transcription (${route.reason})...`);
+      } else if (route.mode === "split") {
+        setStageMessage(`Transcribing ${route.reason} in parallel pieces...`);
+      }
 
+      // Aborting drops the server's queued translation and TTS work too
       const response = await fetch("/api/translate-audio", {
         method: "POST",
         body: formData,
+        signal: controller.signal,
       });
 
       const data = await response.json();
@@ -200,13 +429,15 @@ export default function TranslatorPage() {
         setWarning(
           "Long audio detected. Processing (this may take a few minutes)...",
         );
-        pollJobStatus(data.jobId, data.fileName);
+        jobIdRef.current = data.jobId;
+        subscribeToJob(data.jobId);
       } else {
         setResult(data);
-        setWarning(data.warning || null);
+        setWarning(firstWarning(data));
         setIsLoading(false);
       }
     } catch (err: unknown) {
+      if (controller.signal.aborted) return;
       if (err instanceof Error) {
         setError(err.message || "An unexpected error occurred.");
       } else {
@@ -216,13 +447,148 @@ export default function TranslatorPage() {
     }
   };
 
-  const pollJobStatus = async (jobId: string, fileName: string) => {
+  // Typed text skips STT: one request translates and, optionally, speaks it
+  const processText = async () => {
+    if (!inputText.trim()) return;
+
+    const controller = new AbortController();
+    requestRef.current = controller;
+    jobIdRef.current = null;
+    setIsLoading(true);
+    setUploadProgress(null);
+    setStageMessage("Translating text...");
+    setError(null);
+    setWarning(null);
+    setResult(null);
+    setActiveLanguage(null);
+
+    try {
+      const response = await fetch("/api/translate-text", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          text: inputText,
+          targetLanguages: targetLanguages(),
+          sourceLanguage,
+          voice,
+          glossaryId,
+          translationOptions,
+          speak: speakText,
+        }),
+        signal: controller.signal,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Translation failed");
+      }
+      setResult(data);
+      setWarning(firstWarning(data));
+      setIsLoading(false);
+    } catch (err: unknown) {
+      if (controller.signal.aborted) return;
+      setError(err instanceof Error ? err.message : String(err));
+      setIsLoading(false);
+    }
+  };
+
+  // Live stage updates over SSE. Falls back to polling if the stream drops.
+  const subscribeToJob = (jobId: string) => {
+    eventSourceRef.current?.close();
+    const source = new EventSource(
+      `/api/jobs/${encodeURIComponent(jobId)}/events`,
+    );
+    eventSourceRef.current = source;
+    let finished = false;
+
+    const stop = () => {
+      finished = true;
+      source.close();
+      if (eventSourceRef.current === source) eventSourceRef.current = null;
+    };
+
+    const inLanguage = (code?: string) =>
+      code && extraLanguages.length > 0 ? ` ${languageName(code)}` : "";
+
+    const stageMessages: Record<string, string> = {
+      transcribing: "Transcribing audio...",
+      translating: "Translating text...",
+      synthesizing: "Generating speech...",
+    };
+
+    const handleEvent = (e: MessageEvent) => {
+      const event = JSON.parse(e.data);
+      switch (event.type) {
+        case "upload_committed":
+          setStageMessage("Upload committed");
+          break;
+        case "state":
+          if (stageMessages[event.state]) {
+            setStageMessage(stageMessages[event.state]);
+          }
+          break;
+        case "stt_running":
+          setStageMessage(
+            `Speech-to-text running${event.providerState ? ` (${event.providerState})` : ""}...`,
+          );
+          break;
+        case "translation_chunk":
+          setStageMessage(
+            `Translating${inLanguage(event.language)} chunk ${event.index} of ${event.total}...`,
+          );
+          break;
+        case "tts_chunk":
+          setStageMessage(
+            `Synthesizing${inLanguage(event.language)} audio chunk ${event.index} of ${event.total}...`,
+          );
+          break;
+        case "merged":
+          setStageMessage("Merging audio...");
+          break;
+        case "completed":
+          stop();
+          // Result payload is served by check-job, the stream only carries progress
+          pollJobStatus(jobId);
+          break;
+        case "failed":
+          stop();
+          setError(`Batch processing failed: ${event.error}`);
+          setIsLoading(false);
+          break;
+      }
+    };
+
+    [
+      "upload_committed",
+      "state",
+      "stt_running",
+      "translation_chunk",
+      "tts_chunk",
+      "merged",
+      "completed",
+      "failed",
+    ].forEach((type) => source.addEventListener(type, handleEvent));
+
+    source.onerror = () => {
+      if (finished) return;
+      console.warn("Progress stream dropped, falling back to polling.");
+      stop();
+      pollJobStatus(jobId);
+    };
+  };
+
+  const pollJobStatus = async (jobId: string) => {
+    // Cancelling the run stops polling and discards any late answer
+    const signal = requestRef.current?.signal;
     const poll = async () => {
+      pollTimerRef.current = null;
+      if (signal?.aborted) return;
       try {
         const response = await fetch(
-          `/api/check-job?jobId=${jobId}&targetLanguage=${targetLanguage}&fileName=${encodeURIComponent(fileName)}`,
+          `/api/check-job?jobId=${encodeURIComponent(jobId)}`,
+          { signal },
         );
         const data = await response.json();
+        if (signal?.aborted) return;
 
         if (!response.ok) {
           throw new Error(data.error || "Status check failed");
@@ -232,15 +598,16 @@ export default function TranslatorPage() {
           setResult(data);
           setIsLoading(false);
           setError(null);
-          setWarning(data.warning || null);
+          setWarning(firstWarning(data));
         } else if (data.status === "failed") {
           setError(`Batch processing failed: ${data.error}`);
           setIsLoading(false);
         } else {
           // Still processing, poll again after 10 seconds
-          setTimeout(poll, 10000);
+          pollTimerRef.current = setTimeout(poll, 10000);
         }
       } catch (err: unknown) {
+        if (signal?.aborted) return;
         setError(err instanceof Error ? err.message : String(err));
         setIsLoading(false);
       }
@@ -249,6 +616,44 @@ export default function TranslatorPage() {
     poll();
   };
 
+  // Corrections re-run only what depends on the edited text: a new
+  // transcript is translated and spoken again, a new translation only spoken
+  const reviseResult = async (
+    revision: { originalText: string } | { translatedText: string },
+    language?: string,
+  ) => {
+    if (!result?.jobId) return;
+    const response = await fetch(
+      `/api/jobs/${encodeURIComponent(result.jobId)}/revise`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...revision, language }),
+      },
+    );
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.details || data.error || "Revision failed");
+    }
+    setResult(data);
+    setWarning(firstWarning(data));
+  };
+
+  // One tab per target language; single-language results have no list
+  const outputs: TranslationResult[] = result?.translations?.length
+    ? result.translations
+    : result
+      ? [
+          {
+            language: targetLanguage,
+            translatedText: result.translatedText,
+            audioBase64: result.audioBase64,
+          },
+        ]
+      : [];
+  const activeOutput =
+    outputs.find((o) => o.language === activeLanguage) ?? outputs[0];
+
   return (
     <div className="min-h-screen bg-slate-950 text-slate-100 font-sans selection:bg-indigo-500/30">
       {/* Background Ornaments */}
@@ -276,264 +681,525 @@ export default function TranslatorPage() {
         </header>
 
         {/* Main Interface Layout */}
-        <div className="grid lg:grid-cols-[1fr,1.2fr] gap-8 items-start">
-          {/* Left Column (Input) */}
-          <div className="flex flex-col gap-6">
-            <AnimatePresence mode="popLayout">
-              {!audioUrl ? (
-                <motion.div
-                  initial={{ opacity: 0, scale: 0.95 }}
-                  animate={{ opacity: 1, scale: 1 }}
-                  exit={{ opacity: 0, scale: 0.95, height: 0 }}
-                  transition={{ duration: 0.2 }}
-                  className="flex flex-col gap-6"
-                >
-                  <div className="bg-slate-900/40 p-1.5 rounded-2xl backdrop-blur border border-white/5 inline-flex w-full mb-2">
-                    <button
-                      onClick={() => setActiveTab("record")}
-                      className={`flex-1 py-3 px-4 rounded-xl font-medium transition-all text-sm ${activeTab === "record" ? "bg-indigo-600 text-white shadow-lg" : "text-slate-400 hover:text-white hover:bg-white/5"}`}
-                    >
-                      Record Audio
-                    </button>
-                    <button
-                      onClick={() => setActiveTab("upload")}
-                      className={`flex-1 py-3 px-4 rounded-xl font-medium transition-all text-sm ${activeTab === "upload" ? "bg-indigo-600 text-white shadow-lg" : "text-slate-400 hover:text-white hover:bg-white/5"}`}
-                    >
-                      Upload File
-                    </button>
-                  </div>
+        {authState === "signed-out" && (
+          <SignIn onSignedIn={() => setAuthState("signed-in")} />
+        )}
+        {authState === "signed-in" && (
+          // Refetched when a run finishes and after each live segment
+          <UsageMeter refreshKey={isLoading ? -1 : liveSegments.length} />
+        )}
+        {authState === "signed-in" && <ServiceStatus refreshKey={error} />}
+        {authState === "signed-in" && (
+          <div className="grid lg:grid-cols-[1fr,1.2fr] gap-8 items-start">
+            {/* Left Column (Input) */}
+            <div className="flex flex-col gap-6">
+              <AnimatePresence mode="popLayout">
+                {!audioUrl ? (
+                  <motion.div
+                    initial={{ opacity: 0, scale: 0.95 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    exit={{ opacity: 0, scale: 0.95, height: 0 }}
+                    transition={{ duration: 0.2 }}
+                    className="flex flex-col gap-6"
+                  >
+                    <div className="bg-slate-900/40 p-1.5 rounded-2xl backdrop-blur border border-white/5 inline-flex w-full mb-2">
+                      <button
+                        onClick={() => setActiveTab("record")}
+                        className={`flex-1 py-3 px-4 rounded-xl font-medium transition-all text-sm ${activeTab === "record" ? "bg-indigo-600 text-white shadow-lg" : "text-slate-400 hover:text-white hover:bg-white/5"}`}
+                      >
+                        Record Audio
+                      </button>
+                      <button
+                        onClick={() => setActiveTab("upload")}
+                        className={`flex-1 py-3 px-4 rounded-xl font-medium transition-all text-sm ${activeTab === "upload" ? "bg-indigo-600 text-white shadow-lg" : "text-slate-400 hover:text-white hover:bg-white/5"}`}
+                      >
+                        Upload File
+                      </button>
+                      <button
+                        onClick={() => setActiveTab("text")}
+                        className={`flex-1 py-3 px-4 rounded-xl font-medium transition-all text-sm ${activeTab === "text" ? "bg-indigo-600 text-white shadow-lg" : "text-slate-400 hover:text-white hover:bg-white/5"}`}
+                      >
+                        Type Text
+                      </button>
+                    </div>
 
-                  <div className="h-[280px]">
-                    <AnimatePresence mode="wait">
-                      {activeTab === "record" ? (
-                        <motion.div
-                          key="record"
-                          initial={{ opacity: 0, y: 10 }}
-                          animate={{ opacity: 1, y: 0 }}
-                          exit={{ opacity: 0, scale: 0.95 }}
-                          transition={{ duration: 0.2 }}
-                        >
-                          <AudioRecorder
-                            onRecordingComplete={handleAudioCapture}
-                            disabled={isLoading}
-                          />
-                        </motion.div>
-                      ) : (
-                        <motion.div
-                          key="upload"
-                          initial={{ opacity: 0, y: 10 }}
-                          animate={{ opacity: 1, y: 0 }}
-                          exit={{ opacity: 0, scale: 0.95 }}
-                          transition={{ duration: 0.2 }}
-                        >
-                          <AudioUploader
-                            onFileSelect={handleAudioCapture}
-                            disabled={isLoading}
-                          />
-                        </motion.div>
-                      )}
-                    </AnimatePresence>
-                  </div>
-                </motion.div>
-              ) : (
-                <motion.div
-                  initial={{ opacity: 0, scale: 0.95 }}
-                  animate={{ opacity: 1, scale: 1 }}
-                  exit={{ opacity: 0, scale: 0.95, height: 0 }}
-                  transition={{ duration: 0.2 }}
-                  className="bg-slate-800/50 p-6 rounded-2xl border border-white/5 flex flex-col gap-4"
-                >
-                  <div className="flex items-center justify-between">
-                    <p className="text-sm text-slate-400 font-medium tracking-wider uppercase flex items-center gap-2">
-                      <PlayCircle size={16} className="text-indigo-400" />
-                      Selected Audio
-                    </p>
-                    <button
-                      onClick={clearAudio}
-                      disabled={isLoading}
-                      className="text-slate-400 hover:text-red-400 transition-colors p-2 rounded-lg hover:bg-red-400/10 disabled:opacity-50 flex items-center gap-2 text-sm font-medium"
-                    >
-                      <Trash2 size={16} />
-                      Remove
-                    </button>
-                  </div>
-                  <audio
-                    controls
-                    src={audioUrl}
-                    className="w-full outline-none CustomAudioPlayer h-12"
-                  />
-                </motion.div>
-              )}
-            </AnimatePresence>
-
-            <LanguageSelector
-              value={targetLanguage}
-              onChange={setTargetLanguage}
-              disabled={isLoading}
-            />
-
-            <button
-              onClick={processTranslate}
-              disabled={!audioFile || isLoading}
-              className="w-full py-4 rounded-2xl bg-gradient-to-r from-indigo-500 to-purple-600 hover:from-indigo-600 hover:to-purple-700 text-white font-bold text-lg shadow-xl shadow-indigo-500/25 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-3 relative overflow-hidden group"
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="animate-spin" size={24} />
-                  <span>Processing Audio...</span>
-                </>
-              ) : (
-                <>
-                  <Sparkles size={24} />
-                  <span>Translate & Generate Audio</span>
-                  <div className="absolute inset-0 bg-white/20 translate-y-full group-hover:translate-y-0 transition-transform duration-300 pointer-events-none mix-blend-overlay"></div>
-                </>
+                    <div className="h-[280px]">
+                      <AnimatePresence mode="wait">
+                        {activeTab === "record" ? (
+                          <motion.div
+                            key="record"
+                            initial={{ opacity: 0, y: 10 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, scale: 0.95 }}
+                            transition={{ duration: 0.2 }}
+                          >
+                            <AudioRecorder
+                              onRecordingComplete={handleAudioCapture}
+                              disabled={isLoading}
+                              liveMode={liveMode}
+                              targetLanguage={targetLanguage}
+                              sourceLanguage={
+                                sourceLanguage === AUTO_DETECT
+                                  ? undefined
+                                  : sourceLanguage
+                              }
+                              voice={voice}
+                              glossaryId={glossaryId}
+                              translationOptions={translationOptions}
+                              onLiveMessage={handleLiveMessage}
+                            />
+                          </motion.div>
+                        ) : activeTab === "text" ? (
+                          <motion.div
+                            key="text"
+                            initial={{ opacity: 0, y: 10 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, scale: 0.95 }}
+                            transition={{ duration: 0.2 }}
+                            className="h-full"
+                          >
+                            <textarea
+                              value={inputText}
+                              onChange={(e) => setInputText(e.target.value)}
+                              disabled={isLoading}
+                              placeholder="Type or paste the text to translate..."
+                              className="w-full h-full p-6 bg-slate-900/40 border border-white/10 rounded-3xl text-slate-200 placeholder:text-slate-500 outline-none focus:border-indigo-500/50 resize-none disabled:opacity-50"
+                            />
+                          </motion.div>
+                        ) : (
+                          <motion.div
+                            key="upload"
+                            initial={{ opacity: 0, y: 10 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, scale: 0.95 }}
+                            transition={{ duration: 0.2 }}
+                          >
+                            <AudioUploader
+                              onFileSelect={handleAudioCapture}
+                              disabled={isLoading}
+                            />
+                          </motion.div>
+                        )}
+                      </AnimatePresence>
+                    </div>
+                  </motion.div>
+                ) : (
+                  <motion.div
+                    initial={{ opacity: 0, scale: 0.95 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    exit={{ opacity: 0, scale: 0.95, height: 0 }}
+                    transition={{ duration: 0.2 }}
+                    className="bg-slate-800/50 p-6 rounded-2xl border border-white/5 flex flex-col gap-4"
+                  >
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm text-slate-400 font-medium tracking-wider uppercase flex items-center gap-2">
+                        <PlayCircle size={16} className="text-indigo-400" />
+                        Selected Audio
+                      </p>
+                      <button
+                        onClick={clearAudio}
+                        disabled={isLoading}
+                        className="text-slate-400 hover:text-red-400 transition-colors p-2 rounded-lg hover:bg-red-400/10 disabled:opacity-50 flex items-center gap-2 text-sm font-medium"
+                      >
+                        <Trash2 size={16} />
+                        Remove
+                      </button>
+                    </div>
+                    <audio
+                      controls
+                      src={audioUrl}
+                      className="w-full outline-none CustomAudioPlayer h-12"
+                    />
+                  </motion.div>
+                )}
+              </AnimatePresence>
+
+              <LanguageSelector
+                value={targetLanguage}
+                onChange={setTargetLanguage}
+                source={sourceLanguage}
+                onSourceChange={setSourceLanguage}
+                disabled={isLoading}
+                // Live mode translates into one language as you speak
+                {...(!(liveMode && activeTab === "record") && {
+                  additional: extraLanguages,
+                  onAdditionalChange: setExtraLanguages,
+                })}
+              />
+
+              <VoicePicker
+                value={voice}
+                onChange={setVoice}
+                disabled={isLoading}
+              />
+
+              <TranslationOptionsPicker
+                value={translationOptions}
+                onChange={setTranslationOptions}
+                disabled={isLoading}
+              />
+
+              {authState === "signed-in" && (
+                <GlossaryPicker
+                  value={glossaryId}
+                  onChange={setGlossaryId}
+                  disabled={isLoading}
+                />
               )}
-            </button>
-          </div>
 
-          {/* Right Column (Output) or Conditional Display */}
-          <div className="flex flex-col gap-6">
-            {/* Error Message */}
-            <AnimatePresence>
-              {error && (
-                <motion.div
-                  initial={{ opacity: 0, height: 0 }}
-                  animate={{ opacity: 1, height: "auto" }}
-                  exit={{ opacity: 0, height: 0 }}
-                  className="bg-red-500/10 border border-red-500/20 text-red-200 p-4 rounded-2xl flex items-start gap-4"
-                >
-                  <AlertTriangle className="shrink-0 mt-0.5" />
+              {!audioUrl && activeTab === "record" && (
+                <label className="flex items-center justify-between gap-4 p-4 bg-white/5 border border-white/10 rounded-2xl cursor-pointer">
                   <div>
-                    <h3 className="font-semibold text-red-100 mb-1">
-                      Processing Error
-                    </h3>
-                    <p className="text-sm opacity-90">{error}</p>
+                    <p className="font-semibold text-slate-200">Live mode</p>
+                    <p className="text-xs text-slate-400">
+                      Translate while you speak, segment by segment
+                    </p>
                   </div>
-                </motion.div>
+                  <input
+                    type="checkbox"
+                    checked={liveMode}
+                    onChange={(e) => setLiveMode(e.target.checked)}
+                    disabled={isLoading}
+                    className="w-5 h-5 accent-indigo-500"
+                  />
+                </label>
               )}
-            </AnimatePresence>
-
-            {/* Warning Message */}
-            <AnimatePresence>
-              {warning && (
-                <motion.div
-                  initial={{ opacity: 0, height: 0 }}
-                  animate={{ opacity: 1, height: "auto" }}
-                  exit={{ opacity: 0, height: 0 }}
-                  className="bg-yellow-500/10 border border-yellow-500/20 text-yellow-200 p-4 rounded-2xl flex items-start gap-4"
-                >
-                  <AlertTriangle className="shrink-0 mt-0.5" />
+
+              {activeTab === "text" && (
+                <label className="flex items-center justify-between gap-4 p-4 bg-white/5 border border-white/10 rounded-2xl cursor-pointer">
                   <div>
-                    <h3 className="font-semibold text-yellow-100 mb-1">
-                      Notice
-                    </h3>
-                    <p className="text-sm opacity-90">{warning}</p>
+                    <p className="font-semibold text-slate-200">
+                      Speak the translation
+                    </p>
+                    <p className="text-xs text-slate-400">
+                      Turn off to get the translated text only
+                    </p>
                   </div>
-                </motion.div>
-              )}
-            </AnimatePresence>
-
-            <div
-              className={`relative flex flex-col gap-6 p-8 rounded-3xl border ${result || isLoading ? "bg-slate-800/80 border-slate-700 shadow-2xl" : "bg-slate-900/30 border-dashed border-slate-800"} backdrop-blur-xl transition-all min-h-[500px]`}
-            >
-              {!result && !isLoading && !error && (
-                <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-500 px-8 text-center pointer-events-none">
-                  <PlayCircle size={48} className="mb-4 opacity-50" />
-                  <p className="text-lg">
-                    Your translated audio and text will appear here.
-                  </p>
-                </div>
+                  <input
+                    type="checkbox"
+                    checked={speakText}
+                    onChange={(e) => setSpeakText(e.target.checked)}
+                    disabled={isLoading}
+                    className="w-5 h-5 accent-indigo-500"
+                  />
+                </label>
               )}
 
-              {isLoading && (
-                <div className="absolute inset-0 flex flex-col items-center justify-center z-20 bg-slate-900/60 backdrop-blur-sm rounded-3xl p-8">
-                  {uploadProgress ? (
-                    <div className="w-full max-w-sm flex flex-col items-center gap-4">
-                      <div className="w-full bg-slate-800 rounded-full h-3 border border-slate-700 overflow-hidden">
-                        <div
-                          className="bg-indigo-500 h-full rounded-full transition-all duration-300 ease-out"
-                          style={{
-                            width: `${Math.max(5, (uploadProgress.current / uploadProgress.total) * 100)}%`,
-                          }}
-                        />
-                      </div>
-                      <h3 className="text-xl font-bold text-white mb-1">
-                        Uploading Audio
-                      </h3>
-                      <p className="text-indigo-200 text-sm text-center">
-                        {uploadProgress.message}
+              {!(liveMode && activeTab === "record") &&
+                activeTab !== "text" && (
+                  <label className="flex items-center justify-between gap-4 p-4 bg-white/5 border border-white/10 rounded-2xl cursor-pointer">
+                    <div>
+                      <p className="font-semibold text-slate-200">
+                        Multiple speakers
+                      </p>
+                      <p className="text-xs text-slate-400">
+                        Split the transcript by speaker and give each one a
+                        voice
                       </p>
                     </div>
-                  ) : (
-                    <>
-                      <div className="w-16 h-16 border-4 border-indigo-500/30 border-t-indigo-500 rounded-full animate-spin mb-6"></div>
-                      <h3 className="text-xl font-bold text-white mb-2">
-                        Analyzing Audio
-                      </h3>
-                      <p className="text-indigo-200">
-                        Sarvam Bulbul v3 is processing...
+                    <input
+                      type="checkbox"
+                      checked={multiSpeaker}
+                      onChange={(e) => setMultiSpeaker(e.target.checked)}
+                      disabled={isLoading}
+                      className="w-5 h-5 accent-indigo-500"
+                    />
+                  </label>
+                )}
+
+              {!(liveMode && activeTab === "record") &&
+                activeTab !== "text" &&
+                !multiSpeaker && (
+                  <label className="flex items-center justify-between gap-4 p-4 bg-white/5 border border-white/10 rounded-2xl cursor-pointer">
+                    <div>
+                      <p className="font-semibold text-slate-200">
+                        Fast long audio
                       </p>
-                    </>
-                  )}
-                </div>
-              )}
+                      <p className="text-xs text-slate-400">
+                        Transcribe clips up to 5 minutes in parallel pieces
+                        instead of a batch job
+                      </p>
+                    </div>
+                    <input
+                      type="checkbox"
+                      checked={splitLongAudio}
+                      onChange={(e) => setSplitLongAudio(e.target.checked)}
+                      disabled={isLoading}
+                      className="w-5 h-5 accent-indigo-500"
+                    />
+                  </label>
+                )}
 
-              {result && (
-                <motion.div
-                  initial={{ opacity: 0, y: 20 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  className="flex flex-col gap-6 h-full"
+              <button
+                onClick={activeTab === "text" ? processText : processTranslate}
+                disabled={
+                  (activeTab === "text" ? !inputText.trim() : !audioFile) ||
+                  isLoading
+                }
+                className="w-full py-4 rounded-2xl bg-gradient-to-r from-indigo-500 to-purple-600 hover:from-indigo-600 hover:to-purple-700 text-white font-bold text-lg shadow-xl shadow-indigo-500/25 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-3 relative overflow-hidden group"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="animate-spin" size={24} />
+                    <span>
+                      {activeTab === "text"
+                        ? "Translating..."
+                        : "Processing Audio..."}
+                    </span>
+                  </>
+                ) : (
+                  <>
+                    <Sparkles size={24} />
+                    <span>
+                      {activeTab === "text" && !speakText
+                        ? "Translate"
+                        : "Translate & Generate Audio"}
+                    </span>
+                    <div className="absolute inset-0 bg-white/20 translate-y-full group-hover:translate-y-0 transition-transform duration-300 pointer-events-none mix-blend-overlay"></div>
+                  </>
+                )}
+              </button>
+              {isLoading && (
+                <button
+                  onClick={cancelTranslate}
+                  className="self-center text-sm text-slate-400 hover:text-red-400 transition-colors"
                 >
-                  {/* Output Audio */}
-                  <div className="bg-gradient-to-br from-indigo-500/10 to-purple-500/10 border border-indigo-500/20 p-6 rounded-2xl space-y-4">
-                    <div className="flex items-center gap-2 text-indigo-300">
-                      <PlayCircle size={20} />
-                      <h3 className="font-semibold uppercase tracking-wider text-sm">
-                        Translated Audio
+                  Cancel
+                </button>
+              )}
+            </div>
+
+            {/* Right Column (Output) or Conditional Display */}
+            <div className="flex flex-col gap-6">
+              {/* Error Message */}
+              <AnimatePresence>
+                {error && (
+                  <motion.div
+                    initial={{ opacity: 0, height: 0 }}
+                    animate={{ opacity: 1, height: "auto" }}
+                    exit={{ opacity: 0, height: 0 }}
+                    className="bg-red-500/10 border border-red-500/20 text-red-200 p-4 rounded-2xl flex items-start gap-4"
+                  >
+                    <AlertTriangle className="shrink-0 mt-0.5" />
+                    <div>
+                      <h3 className="font-semibold text-red-100 mb-1">
+                        Processing Error
                       </h3>
+                      <p className="text-sm opacity-90">{error}</p>
                     </div>
-                    <audio
-                      controls
-                      src={`data:audio/wav;base64,${result.audioBase64}`}
-                      className="w-full CustomAudioPlayer"
-                      autoPlay
-                    />
-                  </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
 
-                  {/* Transcripts */}
-                  <div className="flex-1 grid grid-rows-2 gap-4">
-                    {/* Translated Text */}
-                    <div className="bg-slate-900/50 p-6 rounded-2xl border border-white/5 flex flex-col">
-                      <div className="flex items-center gap-2 text-purple-400 mb-3">
-                        <Type size={18} />
-                        <h3 className="font-semibold text-sm uppercase tracking-wider">
-                          Translated Output
-                        </h3>
-                      </div>
-                      <p className="text-lg text-white leading-relaxed flex-1 overflow-auto">
-                        {result.translatedText}
+              {/* Warning Message */}
+              <AnimatePresence>
+                {warning && (
+                  <motion.div
+                    initial={{ opacity: 0, height: 0 }}
+                    animate={{ opacity: 1, height: "auto" }}
+                    exit={{ opacity: 0, height: 0 }}
+                    className="bg-yellow-500/10 border border-yellow-500/20 text-yellow-200 p-4 rounded-2xl flex items-start gap-4"
+                  >
+                    <AlertTriangle className="shrink-0 mt-0.5" />
+                    <div>
+                      <h3 className="font-semibold text-yellow-100 mb-1">
+                        Notice
+                      </h3>
+                      <p className="text-sm opacity-90">{warning}</p>
+                    </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+
+              <div
+                className={`relative flex flex-col gap-6 p-8 rounded-3xl border ${result || isLoading ? "bg-slate-800/80 border-slate-700 shadow-2xl" : "bg-slate-900/30 border-dashed border-slate-800"} backdrop-blur-xl transition-all min-h-[500px]`}
+              >
+                {!result &&
+                  !isLoading &&
+                  !error &&
+                  liveSegments.length === 0 && (
+                    <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-500 px-8 text-center pointer-events-none">
+                      <PlayCircle size={48} className="mb-4 opacity-50" />
+                      <p className="text-lg">
+                        Your translated audio and text will appear here.
                       </p>
                     </div>
+                  )}
 
-                    {/* Original Transcription */}
-                    <div className="bg-slate-900/30 p-6 rounded-2xl border border-white/5 flex flex-col">
-                      <div className="flex items-center gap-2 text-slate-400 mb-3">
-                        <Type size={18} />
-                        <h3 className="font-semibold text-sm uppercase tracking-wider">
-                          Original Transcript
+                {isLoading && (
+                  <div className="absolute inset-0 flex flex-col items-center justify-center z-20 bg-slate-900/60 backdrop-blur-sm rounded-3xl p-8">
+                    {uploadProgress ? (
+                      <div className="w-full max-w-sm flex flex-col items-center gap-4">
+                        <div className="w-full bg-slate-800 rounded-full h-3 border border-slate-700 overflow-hidden">
+                          <div
+                            className="bg-indigo-500 h-full rounded-full transition-all duration-300 ease-out"
+                            style={{
+                              width: `${Math.max(5, (uploadProgress.current / uploadProgress.total) * 100)}%`,
+                            }}
+                          />
+                        </div>
+                        <h3 className="text-xl font-bold text-white mb-1">
+                          Uploading Audio
                         </h3>
+                        <p className="text-indigo-200 text-sm text-center">
+                          {uploadProgress.message}
+                        </p>
                       </div>
-                      <p className="text-base text-slate-300 italic flex-1 overflow-auto">
-                        &quot;{result.originalText}&quot;
-                      </p>
-                    </div>
+                    ) : (
+                      <>
+                        <div className="w-16 h-16 border-4 border-indigo-500/30 border-t-indigo-500 rounded-full animate-spin mb-6"></div>
+                        <h3 className="text-xl font-bold text-white mb-2">
+                          {activeTab === "text"
+                            ? "Translating Text"
+                            : "Analyzing Audio"}
+                        </h3>
+                        <p className="text-indigo-200">
+                          {stageMessage || "Sarvam Bulbul v3 is processing..."}
+                        </p>
+                      </>
+                    )}
                   </div>
-                </motion.div>
-              )}
+                )}
+
+                {!result && liveSegments.length > 0 && (
+                  <LiveTranscript segments={liveSegments} />
+                )}
+
+                {result && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="flex flex-col gap-6 h-full"
+                  >
+                    {/* Language Tabs */}
+                    {outputs.length > 1 && (
+                      <div className="flex flex-wrap gap-2 p-1 bg-white/5 rounded-xl">
+                        {outputs.map((output) => (
+                          <button
+                            key={output.language}
+                            onClick={() => setActiveLanguage(output.language)}
+                            className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-all ${
+                              output.language === activeOutput?.language
+                                ? "bg-indigo-600 text-white shadow-md"
+                                : "text-slate-400 hover:text-slate-200 hover:bg-white/5"
+                            }`}
+                          >
+                            {languageName(output.language)}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+
+                    {/* Output Audio */}
+                    {activeOutput?.audioBase64 && (
+                      <div className="bg-gradient-to-br from-indigo-500/10 to-purple-500/10 border border-indigo-500/20 p-6 rounded-2xl space-y-4">
+                        <div className="flex items-center gap-2 text-indigo-300">
+                          <PlayCircle size={20} />
+                          <h3 className="font-semibold uppercase tracking-wider text-sm">
+                            Translated Audio
+                          </h3>
+                          {result.voice && (
+                            <span className="ml-auto text-xs text-indigo-200/80 capitalize">
+                              {result.voice.name} ({result.voice.gender})
+                            </span>
+                          )}
+                        </div>
+                        <audio
+                          key={activeOutput?.language}
+                          controls
+                          src={`data:audio/wav;base64,${activeOutput?.audioBase64}`}
+                          className="w-full CustomAudioPlayer"
+                          autoPlay
+                        />
+                      </div>
+                    )}
+
+                    {/* Subtitle Downloads */}
+                    {result.jobId && result.hasSubtitles && (
+                      <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <span className="flex items-center gap-2 text-slate-400 font-medium uppercase tracking-wider text-xs mr-2">
+                          <Download size={14} />
+                          Subtitles
+                        </span>
+                        {(activeOutput?.edited
+                          ? (["original"] as const)
+                          : (["original", "translated"] as const)
+                        ).flatMap((track) =>
+                          (["srt", "vtt"] as const).map((format) => (
+                            <a
+                              key={`${track}-${format}`}
+                              href={`/api/jobs/${encodeURIComponent(result.jobId!)}/subtitles?format=${format}&track=${track}${track === "translated" && activeOutput ? `&language=${activeOutput.language}` : ""}`}
+                              download
+                              className="px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-slate-300 hover:text-white hover:bg-white/10 transition-colors"
+                            >
+                              {track === "original" ? "Original" : "Translated"}{" "}
+                              .{format}
+                            </a>
+                          )),
+                        )}
+                      </div>
+                    )}
+
+                    {/* Transcripts */}
+                    <div className="flex-1 grid grid-rows-2 gap-4">
+                      {/* Translated Text */}
+                      <div className="bg-slate-900/50 p-6 rounded-2xl border border-white/5 flex flex-col">
+                        <div className="flex items-center gap-2 text-purple-400 mb-3">
+                          <Type size={18} />
+                          <h3 className="font-semibold text-sm uppercase tracking-wider">
+                            Translated Output
+                          </h3>
+                        </div>
+                        <EditableText
+                          key={`translated-${activeOutput?.language}`}
+                          text={activeOutput?.translatedText ?? ""}
+                          action="Re-synthesize"
+                          onSave={(translatedText) =>
+                            reviseResult(
+                              { translatedText },
+                              activeOutput?.language,
+                            )
+                          }
+                          disabled={!result.jobId}
+                          className="text-lg text-white leading-relaxed"
+                        />
+                      </div>
+
+                      {/* Original Transcription */}
+                      <div className="bg-slate-900/30 p-6 rounded-2xl border border-white/5 flex flex-col">
+                        <div className="flex items-center gap-2 text-slate-400 mb-3">
+                          <Type size={18} />
+                          <h3 className="font-semibold text-sm uppercase tracking-wider">
+                            Original Transcript
+                          </h3>
+                          {result.detectedLanguage && (
+                            <span className="ml-auto text-xs normal-case">
+                              Detected{" "}
+                              {languageName(result.detectedLanguage.code)}
+                              {result.detectedLanguage.confidence !==
+                                undefined &&
+                                ` (${Math.round(result.detectedLanguage.confidence * 100)}%)`}
+                            </span>
+                          )}
+                        </div>
+                        <EditableText
+                          key={result.jobId}
+                          text={result.originalText}
+                          action="Re-translate"
+                          onSave={(originalText) =>
+                            reviseResult({ originalText })
+                          }
+                          disabled={!result.jobId}
+                          className="text-base text-slate-300 italic"
+                        />
+                      </div>
+                    </div>
+                  </motion.div>
+                )}
+              </div>
             </div>
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
@@ -1,15 +1,48 @@
 import React, { useState, useRef, useEffect } from "react";
 import { Mic, Square, Loader2 } from "lucide-react";
 import { motion } from "framer-motion";
+import {
+  liveSocketUrl,
+  type LiveClientMessage,
+  type LiveServerMessage,
+} from "@/lib/liveProtocol";
+import type { VoiceSelection } from "@/lib/voices";
+import type { TranslationOptions } from "@/lib/translationOptions";
+
+// Live mode: how often MediaRecorder hands over a timeslice
+const LIVE_TIMESLICE_MS = 250;
+// Live mode: RMS level that counts as speech, and the pause that ends a segment
+const SPEECH_RMS_THRESHOLD = 0.02;
+const SEGMENT_PAUSE_MS = 700;
+
+const RECORDER_OPTIONS: MediaRecorderOptions = {
+  mimeType: "audio/webm;codecs=opus",
+  audioBitsPerSecond: 32000, // 32 kbps is enough for voice and keeps 5+ min audio under Vercel's 4.5MB limit
+};
 
 interface AudioRecorderProps {
   onRecordingComplete: (audioBlob: Blob) => void;
   disabled?: boolean;
+  // Stream audio over the live socket instead of handing over one Blob
+  liveMode?: boolean;
+  targetLanguage?: string;
+  sourceLanguage?: string;
+  voice?: VoiceSelection;
+  glossaryId?: string | null;
+  translationOptions?: TranslationOptions;
+  onLiveMessage?: (message: LiveServerMessage) => void;
 }
 
 export function AudioRecorder({
   onRecordingComplete,
   disabled,
+  liveMode,
+  targetLanguage,
+  sourceLanguage,
+  voice,
+  glossaryId,
+  translationOptions,
+  onLiveMessage,
 }: AudioRecorderProps) {
   const [isRecording, setIsRecording] = useState(false);
   const [recordingDuration, setRecordingDuration] = useState(0);
@@ -18,14 +51,23 @@ export function AudioRecorder({
   const audioChunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
 
+  const socketRef = useRef<WebSocket | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const vadTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const liveStoppingRef = useRef(false);
+
   useEffect(() => {
     return () => {
       // Cleanup on unmount
       if (timerRef.current) clearInterval(timerRef.current);
+      if (vadTimerRef.current) clearInterval(vadTimerRef.current);
+      audioContextRef.current?.close();
+      socketRef.current?.close();
       if (
         mediaRecorderRef.current &&
         mediaRecorderRef.current.state === "recording"
       ) {
+        liveStoppingRef.current = true;
         mediaRecorderRef.current.stop();
         mediaRecorderRef.current.stream.getTracks().forEach((t) => t.stop());
       }
@@ -40,13 +82,134 @@ export function AudioRecorder({
     }
   };
 
+  const sendLive = (message: LiveClientMessage | Blob) => {
+    const socket = socketRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(message instanceof Blob ? message : JSON.stringify(message));
+    }
+  };
+
+  // Each segment gets its own MediaRecorder so it is a standalone WebM file
+  const startLiveSegment = (stream: MediaStream) => {
+    const mediaRecorder = new MediaRecorder(stream, RECORDER_OPTIONS);
+    mediaRecorderRef.current = mediaRecorder;
+
+    mediaRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0) sendLive(event.data);
+    };
+
+    mediaRecorder.onstop = () => {
+      sendLive({ type: "segment_end" });
+      if (liveStoppingRef.current) {
+        sendLive({ type: "stop" });
+        stream.getTracks().forEach((track) => track.stop());
+      } else {
+        startLiveSegment(stream);
+      }
+    };
+
+    mediaRecorder.start(LIVE_TIMESLICE_MS);
+  };
+
+  // Close the current segment after a pause that follows some speech
+  const startPauseDetection = (stream: MediaStream) => {
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 2048;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    audioContextRef.current = audioContext;
+
+    const samples = new Float32Array(analyser.fftSize);
+    let heardSpeech = false;
+    let lastSpeechAt = 0;
+
+    vadTimerRef.current = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      const rms = Math.sqrt(
+        samples.reduce((sum, v) => sum + v * v, 0) / samples.length,
+      );
+      const now = Date.now();
+      if (rms > SPEECH_RMS_THRESHOLD) {
+        heardSpeech = true;
+        lastSpeechAt = now;
+      } else if (heardSpeech && now - lastSpeechAt > SEGMENT_PAUSE_MS) {
+        heardSpeech = false;
+        if (mediaRecorderRef.current?.state === "recording") {
+          mediaRecorderRef.current.stop();
+        }
+      }
+    }, 100);
+  };
+
+  const startLiveRecording = async (stream: MediaStream) => {
+    const socket = new WebSocket(liveSocketUrl());
+    socketRef.current = socket;
+    liveStoppingRef.current = false;
+
+    socket.onmessage = (event) => {
+      const message = JSON.parse(event.data) as LiveServerMessage;
+      // The server can't take more of this segment: start a fresh recorder,
+      // so the next segment begins with its own WebM header
+      if (message.type === "segment_full") {
+        if (mediaRecorderRef.current?.state === "recording") {
+          mediaRecorderRef.current.stop();
+        }
+        return;
+      }
+      onLiveMessage?.(message);
+    };
+    socket.onerror = () => {
+      onLiveMessage?.({
+        type: "error",
+        message: "Live translation connection failed",
+      });
+    };
+
+    await new Promise<void>((resolve, reject) => {
+      socket.onopen = () => resolve();
+      socket.onclose = () => reject(new Error("Live socket closed"));
+    });
+    socket.onclose = null;
+
+    sendLive({
+      type: "start",
+      targetLanguage: targetLanguage || "hi-IN",
+      mimeType: "audio/webm",
+      ...(sourceLanguage ? { sourceLanguage } : {}),
+      voice,
+      ...(glossaryId ? { glossaryId } : {}),
+      translationOptions,
+    });
+    startLiveSegment(stream);
+    startPauseDetection(stream);
+  };
+
   const startRecording = async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: "audio/webm;codecs=opus",
-        audioBitsPerSecond: 32000, // 32 kbps is enough for voice and keeps 5+ min audio under Vercel's 4.5MB limit
-      });
+
+      if (liveMode) {
+        try {
+          await startLiveRecording(stream);
+        } catch (err) {
+          console.error("Live translation unavailable:", err);
+          stream.getTracks().forEach((track) => track.stop());
+          onLiveMessage?.({
+            type: "error",
+            message:
+              "Live translation is unavailable. Start the app with `npm run server`.",
+          });
+          return;
+        }
+        setIsRecording(true);
+        setRecordingDuration(0);
+        timerRef.current = setInterval(() => {
+          setRecordingDuration((prev) => prev + 1);
+        }, 1000);
+        return;
+      }
+
+      const mediaRecorder = new MediaRecorder(stream, RECORDER_OPTIONS);
 
       mediaRecorderRef.current = mediaRecorder;
       audioChunksRef.current = [];
@@ -87,6 +250,16 @@ export function AudioRecorder({
   };
 
   const stopRecording = () => {
+    if (liveMode && isRecording) {
+      liveStoppingRef.current = true;
+      if (vadTimerRef.current) clearInterval(vadTimerRef.current);
+      audioContextRef.current?.close();
+      audioContextRef.current = null;
+      mediaRecorderRef.current?.stop();
+      setIsRecording(false);
+      if (timerRef.current) clearInterval(timerRef.current);
+      return;
+    }
     if (mediaRecorderRef.current && isRecording) {
       mediaRecorderRef.current.stop();
       setIsRecording(false);
@@ -132,16 +305,23 @@ export function AudioRecorder({
 
       <div className="text-center space-y-2">
         <h3 className="text-lg font-bold text-white">
-          {isRecording ? "Recording..." : "Tap to Record"}
+          {isRecording
+            ? liveMode
+              ? "Live translating..."
+              : "Recording..."
+            : "Tap to Record"}
         </h3>
         {isRecording && (
           <div className="text-red-400 font-mono text-xl tracking-wider">
-            {formatTime(recordingDuration)} / 10:00
+            {formatTime(recordingDuration)}
+            {!liveMode && " / 10:00"}
           </div>
         )}
         {!isRecording && (
           <p className="text-sm text-slate-400">
-            Record a message (max 10m) to translate
+            {liveMode
+              ? "Speak naturally, each pause is translated as you go"
+              : "Record a message (max 10m) to translate"}
           </p>
         )}
       </div>
@@ -0,0 +1,93 @@
+import React, { useState } from "react";
+import { Loader2, Pencil } from "lucide-react";
+
+interface EditableTextProps {
+  text: string;
+  // Label of the button that sends the correction, e.g. "Re-translate"
+  action: string;
+  onSave: (text: string) => Promise<void>;
+  className?: string;
+  disabled?: boolean;
+}
+
+// Read-only text that turns into a textarea to correct it in place
+export function EditableText({
+  text,
+  action,
+  onSave,
+  className,
+  disabled,
+}: EditableTextProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async () => {
+    if (draft === null) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(draft.trim());
+      setDraft(null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (draft === null) {
+    return (
+      <div className="group relative flex-1 overflow-auto">
+        <p className={`whitespace-pre-line ${className ?? ""}`}>{text}</p>
+        {!disabled && (
+          <button
+            type="button"
+            onClick={() => setDraft(text)}
+            title="Edit"
+            className="absolute top-0 right-0 p-1.5 text-slate-500 hover:text-slate-200 rounded-lg hover:bg-white/10 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+          >
+            <Pencil size={14} />
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const unchanged = !draft.trim() || draft.trim() === text.trim();
+  return (
+    <div className="flex-1 flex flex-col gap-2">
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        disabled={saving}
+        rows={4}
+        autoFocus
+        className={`w-full flex-1 bg-white/5 border border-white/10 rounded-xl p-3 outline-none focus:border-indigo-500/50 resize-y ${className ?? ""}`}
+      />
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex justify-end gap-2 text-sm">
+        <button
+          type="button"
+          onClick={() => {
+            setDraft(null);
+            setError(null);
+          }}
+          disabled={saving}
+          className="px-3 py-1.5 rounded-lg text-slate-400 hover:text-slate-200 hover:bg-white/5 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={save}
+          disabled={saving || unchanged}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50"
+        >
+          {saving && <Loader2 size={14} className="animate-spin" />}
+          {action}
+        </button>
+      </div>
+    </div>
+  );
+}
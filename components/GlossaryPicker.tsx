@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from "react";
+import { BookOpen, Download, Upload } from "lucide-react";
+import type { GlossarySummary } from "@/lib/glossaryStore";
+
+interface GlossaryPickerProps {
+  value: string | null;
+  onChange: (value: string | null) => void;
+  disabled?: boolean;
+}
+
+// Pick the workspace glossary applied to translations, or import one as CSV
+export function GlossaryPicker({
+  value,
+  onChange,
+  disabled,
+}: GlossaryPickerProps) {
+  const [glossaries, setGlossaries] = useState<GlossarySummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const load = () =>
+    fetch("/api/glossaries")
+      // Callers without the glossary scope don't see the picker at all
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setGlossaries(data?.glossaries ?? null))
+      .catch((err) => console.error("Failed to load glossaries:", err));
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const importCsv = async (file: File) => {
+    setError(null);
+    const name = file.name.replace(/\.csv$/i, "") || "Glossary";
+    try {
+      const res = await fetch(
+        `/api/glossaries?name=${encodeURIComponent(name)}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "text/csv" },
+          body: await file.text(),
+        },
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error);
+      await load();
+      onChange(data.id);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  if (!glossaries) return null;
+
+  return (
+    <div className="flex flex-col gap-2 p-4 bg-white/5 border border-white/10 rounded-2xl backdrop-blur-sm">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-emerald-500/20 text-emerald-400 rounded-lg">
+          <BookOpen size={18} />
+        </div>
+        <div className="w-full">
+          <p className="text-xs text-slate-400 font-medium tracking-wider uppercase">
+            Glossary
+          </p>
+          <select
+            value={value ?? ""}
+            onChange={(e) => onChange(e.target.value || null)}
+            disabled={disabled}
+            className="w-full bg-transparent font-semibold text-slate-200 outline-none appearance-none cursor-pointer disabled:opacity-50"
+          >
+            <option value="" className="bg-slate-900 text-slate-200">
+              None
+            </option>
+            {glossaries.map((g) => (
+              <option
+                key={g.id}
+                value={g.id}
+                className="bg-slate-900 text-slate-200"
+              >
+                {g.name} ({g.termCount} terms)
+              </option>
+            ))}
+          </select>
+        </div>
+        {value && (
+          <a
+            href={`/api/glossaries/${value}?format=csv`}
+            title="Export as CSV"
+            className="p-2 text-slate-400 hover:text-slate-200 rounded-lg hover:bg-white/10"
+          >
+            <Download size={16} />
+          </a>
+        )}
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          title="Import a CSV"
+          className="p-2 text-slate-400 hover:text-slate-200 rounded-lg hover:bg-white/10 disabled:opacity-50"
+        >
+          <Upload size={16} />
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) importCsv(file);
+          }}
+        />
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
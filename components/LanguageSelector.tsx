@@ -1,77 +1,136 @@
 import React from "react";
 import { Languages, ArrowRight } from "lucide-react";
+import { AUTO_DETECT, SUPPORTED_LANGUAGES } from "@/lib/languages";
 
-export const SUPPORTED_LANGUAGES = [
-  { code: "bn-IN", name: "Bengali" },
-  { code: "en-IN", name: "English" },
-  { code: "gu-IN", name: "Gujarati" },
-  { code: "hi-IN", name: "Hindi" },
-  { code: "kn-IN", name: "Kannada" },
-  { code: "ml-IN", name: "Malayalam" },
-  { code: "mr-IN", name: "Marathi" },
-  { code: "od-IN", name: "Odia" },
-  { code: "pa-IN", name: "Punjabi" },
-  { code: "ta-IN", name: "Tamil" },
-  { code: "te-IN", name: "Telugu" },
-];
+export { SUPPORTED_LANGUAGES };
 
 interface LanguageSelectorProps {
   value: string;
   onChange: (value: string) => void;
+  // Spoken language, or AUTO_DETECT
+  source: string;
+  onSourceChange: (value: string) => void;
   disabled?: boolean;
+  // Extra targets translated in the same run; omit to hide the picker
+  additional?: string[];
+  onAdditionalChange?: (value: string[]) => void;
 }
 
 export function LanguageSelector({
   value,
   onChange,
+  source,
+  onSourceChange,
   disabled,
+  additional,
+  onAdditionalChange,
 }: LanguageSelectorProps) {
+  const toggleAdditional = (code: string) => {
+    if (!additional || !onAdditionalChange) return;
+    onAdditionalChange(
+      additional.includes(code)
+        ? additional.filter((c) => c !== code)
+        : [...additional, code],
+    );
+  };
+
   return (
-    <div className="flex flex-col sm:flex-row items-center justify-between gap-4 p-4 bg-white/5 border border-white/10 rounded-2xl backdrop-blur-sm">
-      {/* Source Language (Auto-detect) */}
-      <div className="flex-1 w-full bg-white/5 rounded-xl p-3 flex items-center gap-3">
-        <div className="p-2 bg-blue-500/20 text-blue-400 rounded-lg">
-          <Languages size={18} />
+    <div className="flex flex-col gap-4 p-4 bg-white/5 border border-white/10 rounded-2xl backdrop-blur-sm">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+        {/* Source Language Dropdown (or auto-detect) */}
+        <div className="flex-1 w-full bg-white/5 rounded-xl p-3 flex items-center gap-3 border border-white/10 focus-within:border-blue-500/50 transition-colors">
+          <div className="p-2 bg-blue-500/20 text-blue-400 rounded-lg">
+            <Languages size={18} />
+          </div>
+          <div className="w-full">
+            <p className="text-xs text-slate-400 font-medium tracking-wider uppercase">
+              Source
+            </p>
+            <select
+              value={source}
+              onChange={(e) => onSourceChange(e.target.value)}
+              disabled={disabled}
+              className="w-full bg-transparent font-semibold text-slate-200 outline-none appearance-none cursor-pointer disabled:opacity-50"
+            >
+              <option
+                value={AUTO_DETECT}
+                className="bg-slate-900 text-slate-200"
+              >
+                Auto-detect
+              </option>
+              {SUPPORTED_LANGUAGES.map((lang) => (
+                <option
+                  key={lang.code}
+                  value={lang.code}
+                  className="bg-slate-900 text-slate-200"
+                >
+                  {lang.name} ({lang.code})
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
-        <div>
-          <p className="text-xs text-slate-400 font-medium tracking-wider uppercase">
-            Source
-          </p>
-          <p className="font-semibold text-slate-200">Auto-detect</p>
+
+        <div className="hidden sm:block text-slate-500">
+          <ArrowRight size={20} />
         </div>
-      </div>
 
-      <div className="hidden sm:block text-slate-500">
-        <ArrowRight size={20} />
+        {/* Target Language Dropdown */}
+        <div className="flex-1 w-full bg-white/5 rounded-xl p-3 flex items-center gap-3 border border-white/10 focus-within:border-blue-500/50 transition-colors">
+          <div className="p-2 bg-purple-500/20 text-purple-400 rounded-lg">
+            <Languages size={18} />
+          </div>
+          <div className="w-full">
+            <p className="text-xs text-slate-400 font-medium tracking-wider uppercase">
+              Target
+            </p>
+            <select
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+              disabled={disabled}
+              className="w-full bg-transparent font-semibold text-slate-200 outline-none appearance-none cursor-pointer disabled:opacity-50"
+            >
+              {SUPPORTED_LANGUAGES.map((lang) => (
+                <option
+                  key={lang.code}
+                  value={lang.code}
+                  className="bg-slate-900 text-slate-200"
+                >
+                  {lang.name} ({lang.code})
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
       </div>
 
-      {/* Target Language Dropdown */}
-      <div className="flex-1 w-full bg-white/5 rounded-xl p-3 flex items-center gap-3 border border-white/10 focus-within:border-blue-500/50 transition-colors">
-        <div className="p-2 bg-purple-500/20 text-purple-400 rounded-lg">
-          <Languages size={18} />
-        </div>
-        <div className="w-full">
-          <p className="text-xs text-slate-400 font-medium tracking-wider uppercase">
-            Target
+      {additional && onAdditionalChange && (
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="text-xs text-slate-400 font-medium tracking-wider uppercase mr-1">
+            Also translate to
           </p>
-          <select
-            value={value}
-            onChange={(e) => onChange(e.target.value)}
-            disabled={disabled}
-            className="w-full bg-transparent font-semibold text-slate-200 outline-none appearance-none cursor-pointer disabled:opacity-50"
-          >
-            {SUPPORTED_LANGUAGES.map((lang) => (
-              <option
-                key={lang.code}
-                value={lang.code}
-                className="bg-slate-900 text-slate-200"
-              >
-                {lang.name} ({lang.code})
-              </option>
-            ))}
-          </select>
+          {SUPPORTED_LANGUAGES.filter((lang) => lang.code !== value).map(
+            (lang) => {
+              const selected = additional.includes(lang.code);
+              return (
+                <button
+                  key={lang.code}
+                  type="button"
+                  onClick={() => toggleAdditional(lang.code)}
+                  disabled={disabled}
+                  className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors disabled:opacity-50 ${
+                    selected
+                      ? "bg-purple-500/20 border-purple-400/50 text-purple-200"
+                      : "bg-white/5 border-white/10 text-slate-400 hover:text-slate-200"
+                  }`}
+                >
+                  {lang.name}
+                </button>
+              );
+            },
+          )}
         </div>
-      </div>
+      )}
     </div>
   );
 }
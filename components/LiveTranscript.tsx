@@ -0,0 +1,53 @@
+import React from "react";
+import { Radio, AlertCircle } from "lucide-react";
+
+export interface LiveSegment {
+  segment: number;
+  partial?: string;
+  original?: string;
+  translated?: string;
+  done?: boolean;
+  error?: string;
+}
+
+interface LiveTranscriptProps {
+  segments: LiveSegment[];
+}
+
+export function LiveTranscript({ segments }: LiveTranscriptProps) {
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center gap-2 text-red-300">
+        <Radio size={18} />
+        <h3 className="font-semibold text-sm uppercase tracking-wider">
+          Live Translation
+        </h3>
+      </div>
+
+      {segments.map((s) => (
+        <div
+          key={s.segment}
+          className="bg-slate-900/50 p-4 rounded-2xl border border-white/5 flex flex-col gap-2"
+        >
+          <p
+            className={`text-sm italic ${s.original ? "text-slate-300" : "text-slate-500"}`}
+          >
+            {s.original ?? s.partial ?? "Listening..."}
+          </p>
+          {s.translated && (
+            <p className="text-lg text-white leading-relaxed">{s.translated}</p>
+          )}
+          {!s.done && s.original && !s.translated && (
+            <p className="text-xs text-indigo-300">Translating...</p>
+          )}
+          {s.error && (
+            <div className="flex items-center gap-2 text-red-400 text-xs">
+              <AlertCircle size={14} />
+              <span>{s.error}</span>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
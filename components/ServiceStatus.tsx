@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import type { BreakerState } from "@/lib/upstream";
+
+interface ServiceStatusProps {
+  // Recheck whenever this changes (the page passes its latest error)
+  refreshKey?: string | null;
+}
+
+// Poll while something is degraded so the banner clears on recovery
+const RECHECK_MS = 15000;
+
+// Banner naming upstream services whose circuit breaker isn't closed
+export function ServiceStatus({ refreshKey }: ServiceStatusProps) {
+  const [degraded, setDegraded] = useState<BreakerState[]>([]);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const check = () =>
+      fetch("/api/status")
+        .then((res) => (res.ok ? res.json() : null))
+        .then((data) => {
+          if (cancelled || !data) return;
+          const open = (data.services as BreakerState[]).filter(
+            (s) => s.state !== "closed",
+          );
+          setDegraded(open);
+          if (open.length > 0) timer = setTimeout(check, RECHECK_MS);
+        })
+        .catch((err) => console.error("Failed to load service status:", err));
+
+    check();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [refreshKey]);
+
+  if (degraded.length === 0) return null;
+
+  const names = degraded.map((s) => s.label).join(", ");
+  return (
+    <div className="flex items-center gap-3 p-4 bg-amber-500/10 border border-amber-500/20 rounded-2xl text-amber-300 text-sm">
+      <AlertTriangle size={18} className="shrink-0" />
+      <p>
+        Degraded service: {names}. Requests may fail or be slow until it
+        recovers.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import React, { useState } from "react";
+import { KeyRound, Loader2 } from "lucide-react";
+
+interface SignInProps {
+  onSignedIn: () => void;
+}
+
+// Trades an API key for a session cookie; the key isn't kept in the browser
+export function SignIn({ onSignedIn }: SignInProps) {
+  const [apiKey, setApiKey] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const signIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/auth/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ apiKey }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Sign-in failed");
+      }
+      setApiKey("");
+      onSignedIn();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={signIn}
+      className="max-w-md w-full mx-auto flex flex-col gap-4 p-6 bg-white/5 border border-white/10 rounded-2xl backdrop-blur-sm"
+    >
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-indigo-500/20 text-indigo-400 rounded-lg">
+          <KeyRound size={18} />
+        </div>
+        <div>
+          <p className="font-semibold text-slate-200">Sign in</p>
+          <p className="text-xs text-slate-400">
+            Enter an API key issued for this deployment
+          </p>
+        </div>
+      </div>
+      <input
+        type="password"
+        value={apiKey}
+        onChange={(e) => setApiKey(e.target.value)}
+        placeholder="API key"
+        autoComplete="off"
+        className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-slate-200 outline-none focus:border-indigo-500"
+      />
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <button
+        type="submit"
+        disabled={!apiKey || isLoading}
+        className="w-full py-3 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white font-semibold transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+      >
+        {isLoading && <Loader2 className="animate-spin" size={18} />}
+        Continue
+      </button>
+    </form>
+  );
+}
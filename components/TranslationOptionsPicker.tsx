@@ -0,0 +1,96 @@
+import React from "react";
+import { MessageSquareText } from "lucide-react";
+import {
+  NUMERAL_FORMATS,
+  SCRIPTS,
+  TONES,
+  type TranslationOptions,
+} from "@/lib/translationOptions";
+import type { VoiceGender } from "@/lib/voices";
+
+interface TranslationOptionsPickerProps {
+  value: TranslationOptions;
+  onChange: (value: TranslationOptions) => void;
+  disabled?: boolean;
+}
+
+const selectClass =
+  "bg-white/5 rounded-lg p-1.5 text-slate-200 outline-none disabled:opacity-50";
+
+export function TranslationOptionsPicker({
+  value,
+  onChange,
+  disabled,
+}: TranslationOptionsPickerProps) {
+  const fields = [
+    { key: "tone", label: "Tone", choices: TONES },
+    { key: "script", label: "Script", choices: SCRIPTS },
+    { key: "numerals", label: "Numerals", choices: NUMERAL_FORMATS },
+  ] as const;
+
+  return (
+    <div className="flex flex-col gap-4 p-4 bg-white/5 border border-white/10 rounded-2xl backdrop-blur-sm">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-sky-500/20 text-sky-400 rounded-lg">
+          <MessageSquareText size={18} />
+        </div>
+        <p className="text-xs text-slate-400 font-medium tracking-wider uppercase">
+          Translation style
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {fields.map(({ key, label, choices }) => (
+          <label
+            key={key}
+            className="flex flex-col gap-1 text-xs text-slate-400"
+          >
+            <span className="font-medium tracking-wider uppercase">
+              {label}
+            </span>
+            <select
+              value={value[key]}
+              onChange={(e) => onChange({ ...value, [key]: e.target.value })}
+              disabled={disabled}
+              className={selectClass}
+            >
+              {choices.map((c) => (
+                <option key={c.value} value={c.value} className="bg-slate-900">
+                  {c.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          <span className="font-medium tracking-wider uppercase">
+            Speaker gender
+          </span>
+          <select
+            value={value.speakerGender ?? ""}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                speakerGender:
+                  (e.target.value as VoiceGender | "") || undefined,
+              })
+            }
+            disabled={disabled}
+            className={selectClass}
+          >
+            <option value="" className="bg-slate-900">
+              Match the voice
+            </option>
+            <option value="Female" className="bg-slate-900">
+              Female
+            </option>
+            <option value="Male" className="bg-slate-900">
+              Male
+            </option>
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from "react";
+import { Gauge } from "lucide-react";
+import type { QuotaKind, QuotaStatus } from "@/lib/rateLimit";
+
+interface UsageMeterProps {
+  // Changes whenever a run finishes, so the numbers are refetched
+  refreshKey: number;
+}
+
+interface Usage {
+  quotas: Record<QuotaKind, QuotaStatus>;
+  resetsAt: string;
+}
+
+const ROWS: { kind: QuotaKind; label: string; unit: string }[] = [
+  { kind: "audioMinutes", label: "Audio", unit: "min" },
+  { kind: "translateChars", label: "Translation", unit: "chars" },
+  { kind: "ttsChars", label: "Speech", unit: "chars" },
+];
+
+const format = (n: number) =>
+  n.toLocaleString(undefined, { maximumFractionDigits: 1 });
+
+// Today's remaining quota per kind; unlimited kinds are left out
+export function UsageMeter({ refreshKey }: UsageMeterProps) {
+  const [usage, setUsage] = useState<Usage | null>(null);
+
+  useEffect(() => {
+    fetch("/api/usage")
+      .then((res) => (res.ok ? res.json() : null))
+      .then(setUsage)
+      .catch((err) => console.error("Failed to load usage:", err));
+  }, [refreshKey]);
+
+  const rows = ROWS.filter(({ kind }) => usage?.quotas[kind].limit !== null);
+  if (!usage || rows.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-2 text-xs text-slate-400">
+      <Gauge size={14} className="text-indigo-400" />
+      {rows.map(({ kind, label, unit }) => {
+        const { remaining, limit } = usage.quotas[kind];
+        return (
+          <span
+            key={kind}
+            className={remaining === 0 ? "text-red-400" : undefined}
+          >
+            {label}: {format(remaining ?? 0)} / {format(limit ?? 0)} {unit} left
+          </span>
+        );
+      })}
+      <span>
+        Resets{" "}
+        {new Date(usage.resetsAt).toLocaleTimeString([], {
+          hour: "2-digit",
+          minute: "2-digit",
+        })}
+      </span>
+    </div>
+  );
+}
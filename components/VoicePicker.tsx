@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from "react";
+import { AudioLines } from "lucide-react";
+import {
+  RANDOM_VOICE,
+  SAMPLE_RATES,
+  TTS_MODEL,
+  VOICE_LIMITS,
+  supportsPitchAndLoudness,
+  type VoiceInfo,
+  type VoiceSelection,
+} from "@/lib/voices";
+
+interface VoicePickerProps {
+  value: VoiceSelection;
+  onChange: (value: VoiceSelection) => void;
+  disabled?: boolean;
+}
+
+const SLIDERS = [
+  { key: "pace", label: "Pace", format: (v: number) => `${v.toFixed(2)}x` },
+  { key: "pitch", label: "Pitch", format: (v: number) => v.toFixed(2) },
+  {
+    key: "loudness",
+    label: "Loudness",
+    format: (v: number) => `${v.toFixed(1)}x`,
+  },
+] as const;
+
+// Only pace applies when the TTS model ignores pitch and loudness
+const sliders = supportsPitchAndLoudness(TTS_MODEL)
+  ? SLIDERS
+  : SLIDERS.filter(({ key }) => key === "pace");
+
+export function VoicePicker({ value, onChange, disabled }: VoicePickerProps) {
+  const [voices, setVoices] = useState<VoiceInfo[]>([]);
+
+  useEffect(() => {
+    fetch("/api/voices")
+      .then((res) => res.json())
+      .then((data) => setVoices(data.voices ?? []))
+      .catch((err) => console.error("Failed to load voices:", err));
+  }, []);
+
+  const isRandom = value.speaker === RANDOM_VOICE;
+
+  return (
+    <div className="flex flex-col gap-4 p-4 bg-white/5 border border-white/10 rounded-2xl backdrop-blur-sm">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-pink-500/20 text-pink-400 rounded-lg">
+          <AudioLines size={18} />
+        </div>
+        <div className="w-full">
+          <p className="text-xs text-slate-400 font-medium tracking-wider uppercase">
+            Voice
+          </p>
+          <select
+            value={value.speaker}
+            onChange={(e) => onChange({ ...value, speaker: e.target.value })}
+            disabled={disabled}
+            className="w-full bg-transparent font-semibold text-slate-200 outline-none appearance-none cursor-pointer disabled:opacity-50"
+          >
+            <option
+              value={RANDOM_VOICE}
+              className="bg-slate-900 text-slate-200"
+            >
+              Surprise me (random per job)
+            </option>
+            {(["Female", "Male"] as const).map((gender) => (
+              <optgroup key={gender} label={gender} className="bg-slate-900">
+                {voices
+                  .filter((v) => v.gender === gender)
+                  .map((v) => (
+                    <option
+                      key={v.name}
+                      value={v.name}
+                      className="bg-slate-900 text-slate-200 capitalize"
+                    >
+                      {v.name}
+                    </option>
+                  ))}
+              </optgroup>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {sliders.map(({ key, label, format }) => (
+          <label
+            key={key}
+            className="flex flex-col gap-1 text-xs text-slate-400"
+          >
+            <span className="flex justify-between">
+              <span className="font-medium tracking-wider uppercase">
+                {label}
+              </span>
+              <span className="text-slate-200">
+                {key === "pace" && isRandom ? "Natural" : format(value[key])}
+              </span>
+            </span>
+            <input
+              type="range"
+              min={VOICE_LIMITS[key].min}
+              max={VOICE_LIMITS[key].max}
+              step={VOICE_LIMITS[key].step}
+              value={value[key]}
+              onChange={(e) =>
+                onChange({ ...value, [key]: Number(e.target.value) })
+              }
+              // A random voice comes with its own natural pace
+              disabled={disabled || (key === "pace" && isRandom)}
+              className="accent-indigo-500 disabled:opacity-50"
+            />
+          </label>
+        ))}
+
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          <span className="font-medium tracking-wider uppercase">
+            Sample rate
+          </span>
+          <select
+            value={value.sampleRate}
+            onChange={(e) =>
+              onChange({ ...value, sampleRate: Number(e.target.value) })
+            }
+            disabled={disabled}
+            className="bg-white/5 rounded-lg p-1.5 text-slate-200 outline-none disabled:opacity-50"
+          >
+            {SAMPLE_RATES.map((rate) => (
+              <option key={rate} value={rate} className="bg-slate-900">
+                {rate / 1000} kHz
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
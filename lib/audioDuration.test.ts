@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import { parseAudioDuration } from "./audioDuration";
+import { encodeWav } from "./wav";
+
+const bytes = (...parts: (number[] | Buffer | string)[]) =>
+  new Uint8Array(
+    Buffer.concat(
+      parts.map((p) =>
+        typeof p === "string" ? Buffer.from(p, "latin1") : Buffer.from(p),
+      ),
+    ),
+  );
+
+const uint32 = (value: number) => {
+  const b = Buffer.alloc(4);
+  b.writeUInt32BE(value);
+  return b;
+};
+
+const float64 = (value: number) => {
+  const b = Buffer.alloc(8);
+  b.writeDoubleBE(value);
+  return b;
+};
+
+// An MP4 box: 32-bit size, type, payload
+const box = (type: string, ...payload: Buffer[]) => {
+  const body = Buffer.concat(payload);
+  return Buffer.concat([uint32(8 + body.length), Buffer.from(type), body]);
+};
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz, joint stereo
+const MP3_FRAME_HEADER = [0xff, 0xfb, 0x90, 0x64];
+
+describe("parseAudioDuration", () => {
+  it("reads WAV duration from the data size and byte rate", () => {
+    const format = {
+      audioFormat: 1,
+      channels: 1,
+      sampleRate: 16000,
+      bitsPerSample: 16,
+    };
+    const wav = encodeWav({ format, data: Buffer.alloc(48000) });
+    expect(parseAudioDuration(wav)).toBe(1.5);
+  });
+
+  it("reads the WebM Info Duration", () => {
+    const webm = bytes(
+      [0x1a, 0x45, 0xdf, 0xa3, 0x80], // empty EBML header
+      [0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff],
+      [0x15, 0x49, 0xa9, 0x66, 0x92], // Info, 18 bytes
+      [0x2a, 0xd7, 0xb1, 0x83, 0x0f, 0x42, 0x40], // TimecodeScale 1ms
+      [0x44, 0x89, 0x88],
+      float64(2500),
+    );
+    expect(parseAudioDuration(webm)).toBe(2.5);
+  });
+
+  it("falls back to the last block time in MediaRecorder WebM", () => {
+    const cluster = (time: number, relative: number) => [
+      ...[0x1f, 0x43, 0xb6, 0x75, 0xff], // Cluster, unknown size
+      ...[0xe7, 0x82, time >> 8, time & 0xff], // Timecode
+      ...[0xa3, 0x85, 0x81, relative >> 8, relative & 0xff, 0x80, 0x00],
+    ];
+    const webm = bytes(
+      [0x1a, 0x45, 0xdf, 0xa3, 0x80],
+      [0x18, 0x53, 0x80, 0x67, 0xff],
+      cluster(0, 980),
+      cluster(1000, 500),
+    );
+    expect(parseAudioDuration(webm)).toBe(1.5);
+  });
+
+  it("walks past an ID3 tag to the first MP3 frame for CBR math", () => {
+    // 10 byte header + 20 byte tag, then 32000 bytes of 128 kbps frames
+    const frames = Buffer.alloc(32000);
+    frames.set(MP3_FRAME_HEADER);
+    const mp3 = bytes("ID3", [4, 0, 0, 0, 0, 0, 20], Buffer.alloc(20), frames);
+    expect(parseAudioDuration(mp3)).toBe(2);
+  });
+
+  it("prefers an MP3 Xing frame count", () => {
+    const frame = Buffer.alloc(417);
+    frame.set(MP3_FRAME_HEADER);
+    // Side info is 32 bytes for MPEG-1 stereo
+    frame.write("Xing", 36, "latin1");
+    frame.writeUInt32BE(1, 40); // frames field present
+    frame.writeUInt32BE(441, 44);
+    expect(parseAudioDuration(bytes(frame))).toBeCloseTo(
+      (441 * 1152) / 44100,
+      6,
+    );
+  });
+
+  it("reads timescale and duration from the MP4 mvhd", () => {
+    const mvhd = box(
+      "mvhd",
+      Buffer.alloc(12), // version 0, flags, creation and modification
+      uint32(1000),
+      uint32(4250),
+      Buffer.alloc(80),
+    );
+    const mp4 = bytes(
+      box("ftyp", Buffer.from("M4A "), uint32(0)),
+      box("free", Buffer.alloc(6)),
+      box("moov", mvhd),
+    );
+    expect(parseAudioDuration(mp4)).toBe(4.25);
+  });
+
+  it.each([
+    ["too short", bytes("RIFF")],
+    ["random bytes", bytes("not really any kind of audio")],
+    [
+      "a WAV without a data chunk",
+      bytes(
+        encodeWav({
+          format: {
+            audioFormat: 1,
+            channels: 1,
+            sampleRate: 8000,
+            bitsPerSample: 16,
+          },
+          data: Buffer.alloc(0),
+        }).subarray(0, 36),
+      ),
+    ],
+    [
+      "a WebM header cut short",
+      bytes([0x1a, 0x45, 0xdf, 0xa3], Buffer.alloc(12)),
+    ],
+    [
+      "an MP3 header with a bad bitrate",
+      bytes([0xff, 0xfb, 0xf0, 0x64], Buffer.alloc(12)),
+    ],
+    [
+      "an MP4 cut inside moov",
+      bytes(
+        box("ftyp", Buffer.from("M4A "), uint32(0)),
+        uint32(200),
+        "moov",
+        box("mvhd", Buffer.alloc(4)),
+      ),
+    ],
+  ])("returns undefined for %s", (_, input) => {
+    expect(parseAudioDuration(input)).toBeUndefined();
+  });
+});
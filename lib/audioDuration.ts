@@ -0,0 +1,259 @@
+/**
+ * Reads the real playback length from a container header (WAV, WebM/Matroska,
+ * MP3, MP4/M4A) without decoding audio. Works on plain bytes so the browser
+ * and the server share it. Returns undefined when the format is unknown or
+ * the header doesn't say.
+ */
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const view = (bytes: Uint8Array) =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+// WAV: data chunk size over the fmt chunk's byte rate
+function wavDuration(bytes: Uint8Array): number | undefined {
+  const dv = view(bytes);
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(bytes, offset, 4);
+    const size = dv.getUint32(offset + 4, true);
+    const start = offset + 8;
+    if (id === "fmt " && start + 12 <= bytes.length) {
+      byteRate = dv.getUint32(start + 8, true);
+    } else if (id === "data" && byteRate > 0) {
+      // Streamed files may leave the size at 0 or 0xFFFFFFFF
+      const remaining = bytes.length - start;
+      const dataSize = size === 0 ? remaining : Math.min(size, remaining);
+      return dataSize / byteRate;
+    }
+    offset = start + size + (size % 2);
+  }
+  return undefined;
+}
+
+// EBML element ids we care about in WebM/Matroska
+const EBML = {
+  segment: 0x18538067,
+  info: 0x1549a966,
+  timecodeScale: 0x2ad7b1,
+  duration: 0x4489,
+  cluster: 0x1f43b675,
+  timecode: 0xe7,
+  blockGroup: 0xa0,
+  block: 0xa1,
+  simpleBlock: 0xa3,
+};
+const EBML_MASTERS = new Set([
+  EBML.segment,
+  EBML.info,
+  EBML.cluster,
+  EBML.blockGroup,
+]);
+
+// Variable-length integer; ids keep their length marker, sizes drop it
+function readVint(
+  bytes: Uint8Array,
+  offset: number,
+  keepMarker: boolean,
+): { value: number; length: number; unknown: boolean } | undefined {
+  const first = bytes[offset];
+  if (first === undefined || first === 0) return undefined;
+  const length = Math.clz32(first) - 23;
+  if (offset + length > bytes.length) return undefined;
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    if (bytes[offset + i] !== 0xff) allOnes = false;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+function readUint(bytes: Uint8Array, offset: number, size: number): number {
+  let value = 0;
+  for (let i = 0; i < size; i++) value = value * 256 + bytes[offset + i];
+  return value;
+}
+
+/**
+ * WebM: the Info Duration when present. MediaRecorder files usually omit it,
+ * so fall back to the latest block timestamp (cluster time + block offset).
+ * Masters are entered rather than skipped, which also copes with the
+ * unknown-size Segment/Cluster elements live recordings use.
+ */
+function webmDuration(bytes: Uint8Array): number | undefined {
+  const dv = view(bytes);
+  let timecodeScale = 1_000_000; // ns per tick, Matroska default
+  let duration: number | undefined;
+  let clusterTime = 0;
+  let lastBlockTime = -1;
+
+  let offset = 0;
+  while (offset < bytes.length) {
+    const id = readVint(bytes, offset, true);
+    if (!id) break;
+    const size = readVint(bytes, offset + id.length, false);
+    if (!size) break;
+    const start = offset + id.length + size.length;
+    const end = size.unknown ? bytes.length : start + size.value;
+    if (end > bytes.length && !EBML_MASTERS.has(id.value)) break;
+
+    if (EBML_MASTERS.has(id.value)) {
+      offset = start;
+      continue;
+    }
+    if (id.value === EBML.timecodeScale) {
+      timecodeScale = readUint(bytes, start, size.value);
+    } else if (id.value === EBML.duration) {
+      duration = size.value === 4 ? dv.getFloat32(start) : dv.getFloat64(start);
+    } else if (id.value === EBML.timecode) {
+      clusterTime = readUint(bytes, start, size.value);
+    } else if (id.value === EBML.simpleBlock || id.value === EBML.block) {
+      const track = readVint(bytes, start, false);
+      if (track && start + track.length + 2 <= bytes.length) {
+        const relative = dv.getInt16(start + track.length);
+        lastBlockTime = Math.max(lastBlockTime, clusterTime + relative);
+      }
+    }
+    offset = end;
+  }
+
+  const ticks = duration && duration > 0 ? duration : lastBlockTime;
+  return ticks >= 0 ? (ticks * timecodeScale) / 1e9 : undefined;
+}
+
+// MPEG-1 and MPEG-2/2.5 Layer III bitrates (kbps) and sample rates (Hz)
+const MP3_BITRATES = {
+  v1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  v2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MP3_SAMPLE_RATES = [44100, 48000, 32000];
+
+// MP3: Xing/Info or VBRI frame count when present, otherwise CBR math
+function mp3Duration(bytes: Uint8Array): number | undefined {
+  const dv = view(bytes);
+  let offset = 0;
+  if (ascii(bytes, 0, 3) === "ID3" && bytes.length >= 10) {
+    // ID3v2 size is "syncsafe": 7 bits per byte
+    const tagSize =
+      (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9];
+    offset = 10 + tagSize + (bytes[5] & 0x10 ? 10 : 0);
+  }
+
+  // Find the first Layer III frame header
+  while (offset + 4 <= bytes.length) {
+    const b1 = bytes[offset + 1];
+    if (bytes[offset] === 0xff && (b1 & 0xe0) === 0xe0) {
+      const version = (b1 >> 3) & 3; // 3 = MPEG-1, 2 = MPEG-2, 0 = MPEG-2.5
+      const layer = (b1 >> 1) & 3; // 1 = Layer III
+      const bitrateIndex = bytes[offset + 2] >> 4;
+      const rateIndex = (bytes[offset + 2] >> 2) & 3;
+      if (
+        version !== 1 &&
+        layer === 1 &&
+        bitrateIndex > 0 &&
+        bitrateIndex < 15 &&
+        rateIndex < 3
+      ) {
+        break;
+      }
+    }
+    offset++;
+  }
+  if (offset + 4 > bytes.length) return undefined;
+
+  const mpeg1 = ((bytes[offset + 1] >> 3) & 3) === 3;
+  const version = (bytes[offset + 1] >> 3) & 3;
+  const sampleRate =
+    MP3_SAMPLE_RATES[(bytes[offset + 2] >> 2) & 3] /
+    (mpeg1 ? 1 : version === 2 ? 2 : 4);
+  const bitrate = (mpeg1 ? MP3_BITRATES.v1 : MP3_BITRATES.v2)[
+    bytes[offset + 2] >> 4
+  ];
+  const samplesPerFrame = mpeg1 ? 1152 : 576;
+  const mono = bytes[offset + 3] >> 6 === 3;
+
+  // Xing/Info header sits right after the side info
+  const xing = offset + 4 + (mpeg1 ? (mono ? 17 : 32) : mono ? 9 : 17);
+  const tag = ascii(bytes, xing, 4);
+  if ((tag === "Xing" || tag === "Info") && xing + 12 <= bytes.length) {
+    if (dv.getUint32(xing + 4) & 1) {
+      return (dv.getUint32(xing + 8) * samplesPerFrame) / sampleRate;
+    }
+  }
+  const vbri = offset + 4 + 32;
+  if (ascii(bytes, vbri, 4) === "VBRI" && vbri + 18 <= bytes.length) {
+    return (dv.getUint32(vbri + 14) * samplesPerFrame) / sampleRate;
+  }
+
+  const id3v1 =
+    bytes.length >= 128 && ascii(bytes, bytes.length - 128, 3) === "TAG"
+      ? 128
+      : 0;
+  return ((bytes.length - offset - id3v1) * 8) / (bitrate * 1000);
+}
+
+// MP4/M4A: moov > mvhd holds timescale and duration
+function mp4Duration(bytes: Uint8Array): number | undefined {
+  const dv = view(bytes);
+  let offset = 0;
+  let end = bytes.length;
+  while (offset + 8 <= end) {
+    let size = dv.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    let header = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = Number(dv.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) return undefined;
+
+    if (type === "moov") {
+      // Search inside moov only
+      end = Math.min(end, offset + size);
+      offset += header;
+      continue;
+    }
+    if (type === "mvhd") {
+      const start = offset + header;
+      const version = bytes[start];
+      if (version === 1 && start + 32 <= bytes.length) {
+        const timescale = dv.getUint32(start + 20);
+        const duration = Number(dv.getBigUint64(start + 24));
+        return timescale ? duration / timescale : undefined;
+      }
+      if (start + 20 <= bytes.length) {
+        const timescale = dv.getUint32(start + 12);
+        const duration = dv.getUint32(start + 16);
+        return timescale ? duration / timescale : undefined;
+      }
+      return undefined;
+    }
+    offset += size;
+  }
+  return undefined;
+}
+
+export function parseAudioDuration(bytes: Uint8Array): number | undefined {
+  if (bytes.length < 12) return undefined;
+  let duration: number | undefined;
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WAVE") {
+    duration = wavDuration(bytes);
+  } else if (readUint(bytes, 0, 4) === 0x1a45dfa3) {
+    duration = webmDuration(bytes);
+  } else if (ascii(bytes, 4, 4) === "ftyp") {
+    duration = mp4Duration(bytes);
+  } else if (
+    ascii(bytes, 0, 3) === "ID3" ||
+    (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)
+  ) {
+    duration = mp3Duration(bytes);
+  }
+  return duration !== undefined && Number.isFinite(duration) && duration >= 0
+    ? duration
+    : undefined;
+}
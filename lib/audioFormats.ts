@@ -0,0 +1,28 @@
+// Mime types we see from MediaRecorder and the uploader, mapped to the file
+// extension upstream services use to detect the container
+const EXTENSIONS: Record<string, string> = {
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/wave": "wav",
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mpeg": "mp3",
+  "audio/mp3": "mp3",
+  "audio/mp4": "m4a",
+  "audio/x-m4a": "m4a",
+  "audio/aac": "aac",
+  "audio/flac": "flac",
+  "video/webm": "webm",
+};
+
+// "audio/webm;codecs=opus" -> "webm"; unknown types keep a neutral "bin"
+export function extensionForMimeType(mimeType: string): string {
+  const base = mimeType.split(";")[0].trim().toLowerCase();
+  return EXTENSIONS[base] ?? "bin";
+}
+
+// Swap (or add) a file name's extension to match its actual contents
+export function withExtension(fileName: string, mimeType: string): string {
+  const stem = fileName.replace(/\.[^./]+$/, "") || "audio";
+  return `${stem}.${extensionForMimeType(mimeType)}`;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { preprocessAudio } from "./audioPreprocess";
+import { offsetSegments } from "./segments";
+import { encodeSamples, encodeWav, type WavFormat } from "./wav";
+
+const format: WavFormat = {
+  audioFormat: 1,
+  channels: 1,
+  sampleRate: 16000,
+  bitsPerSample: 16,
+};
+
+// `silentSeconds` of silence, then a second of 440 Hz tone
+function toneAfterSilence(silentSeconds: number): Buffer {
+  const rate = format.sampleRate;
+  const samples = new Float32Array(Math.round((silentSeconds + 1) * rate));
+  for (let i = Math.round(silentSeconds * rate); i < samples.length; i++) {
+    samples[i] = 0.3 * Math.sin((2 * Math.PI * 440 * i) / rate);
+  }
+  return encodeWav({ format, data: encodeSamples([samples], format) });
+}
+
+describe("preprocessAudio", () => {
+  it("reports the leading silence it trimmed", async () => {
+    const prepared = await preprocessAudio(
+      toneAfterSilence(2),
+      "audio/wav",
+      "clip.wav",
+    );
+    expect(prepared.steps).toContain("trimmed");
+    // Trimmed up to the frame before the tone, less the padding kept
+    expect(prepared.offsetSeconds).toBeGreaterThan(1.8);
+    expect(prepared.offsetSeconds).toBeLessThan(2);
+    expect(prepared.durationSeconds).toBeCloseTo(3 - prepared.offsetSeconds, 2);
+  });
+
+  it("reports no offset when nothing was trimmed at the start", async () => {
+    const prepared = await preprocessAudio(
+      toneAfterSilence(0),
+      "audio/wav",
+      "clip.wav",
+    );
+    expect(prepared.offsetSeconds).toBe(0);
+  });
+});
+
+describe("offsetSegments", () => {
+  it("shifts cues and their words by the trimmed offset", () => {
+    const segments = [
+      {
+        start: 0.1,
+        end: 0.9,
+        text: "Hello there",
+        words: [
+          { text: "Hello", start: 0.1, end: 0.4 },
+          { text: "there", start: 0.5, end: 0.9 },
+        ],
+      },
+    ];
+    const [shifted] = offsetSegments(segments, 1.5);
+    expect(shifted.start).toBeCloseTo(1.6);
+    expect(shifted.end).toBeCloseTo(2.4);
+    expect(shifted.words?.map((w) => w.start)).toEqual([
+      expect.closeTo(1.6),
+      expect.closeTo(2.0),
+    ]);
+    expect(segments[0].start).toBe(0.1);
+  });
+});
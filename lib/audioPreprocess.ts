@@ -0,0 +1,212 @@
+import { spawn } from "child_process";
+import { withExtension } from "./audioFormats";
+import { parseAudioDuration } from "./audioDuration";
+import {
+  convertWav,
+  decodeSamples,
+  encodeSamples,
+  encodeWav,
+  parseWav,
+  type WavAudio,
+  type WavFormat,
+} from "./wav";
+
+/**
+ * Cleans up uploaded audio before STT: decode, downmix to mono, resample to
+ * the STT rate, normalize loudness and trim leading/trailing silence.
+ *
+ * WAV is handled in-process. Other containers (webm/opus, mp3, m4a) are
+ * decoded with ffmpeg when one is available (FFMPEG_PATH or `ffmpeg` on the
+ * PATH); without it they pass through untouched, with the duration read
+ * from the container header where possible.
+ */
+
+export interface PreparedAudio {
+  buffer: Buffer;
+  mimeType: string;
+  fileName: string;
+  // Length after trimming when decoded, else from the container header
+  durationSeconds?: number;
+  // Leading silence trimmed off; add it to STT timestamps so they match the
+  // original upload
+  offsetSeconds: number;
+  // What was done, for logs: e.g. ["decoded:ffmpeg", "resampled", "trimmed"]
+  steps: string[];
+}
+
+// Frame size and level used to find silence at either end
+const SILENCE_FRAME_MS = 20;
+const SILENCE_THRESHOLD = 0.01; // about -40 dBFS
+const SILENCE_PADDING_MS = 150;
+// Loudness target, with a cap on how much quiet audio is boosted
+const TARGET_RMS = 0.1; // about -20 dBFS
+const MAX_GAIN = 10;
+const PEAK_CEILING = 0.95;
+const FFMPEG_TIMEOUT_MS = 60_000;
+
+const getSampleRate = () => Number(process.env.STT_SAMPLE_RATE || 16000);
+const isEnabled = () => process.env.AUDIO_PREPROCESSING !== "off";
+
+// Resolved once per process; null when no working ffmpeg was found
+let ffmpegPath: Promise<string | null> | undefined;
+
+function findFfmpeg(): Promise<string | null> {
+  ffmpegPath ??= new Promise((resolve) => {
+    const candidate = process.env.FFMPEG_PATH || "ffmpeg";
+    const probe = spawn(candidate, ["-version"], { stdio: "ignore" });
+    probe.on("error", () => resolve(null));
+    probe.on("close", (code) => resolve(code === 0 ? candidate : null));
+  });
+  return ffmpegPath;
+}
+
+// Decode any container ffmpeg understands into 16-bit mono WAV at `rate`
+function decodeWithFfmpeg(
+  ffmpeg: string,
+  input: Buffer,
+  rate: number,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(
+      ffmpeg,
+      [
+        ...["-hide_banner", "-loglevel", "error", "-i", "pipe:0"],
+        ...["-ac", "1", "-ar", String(rate), "-c:a", "pcm_s16le"],
+        ...["-f", "wav", "pipe:1"],
+      ],
+      { timeout: FFMPEG_TIMEOUT_MS },
+    );
+    const output: Buffer[] = [];
+    const errors: Buffer[] = [];
+    child.stdout.on("data", (chunk: Buffer) => output.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => errors.push(chunk));
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(output));
+      } else {
+        const stderr = Buffer.concat(errors).toString().trim();
+        reject(new Error(`ffmpeg exited with ${code}: ${stderr}`));
+      }
+    });
+    // ffmpeg may stop reading early on bad input; the close handler reports it
+    child.stdin.on("error", () => {});
+    child.stdin.end(input);
+  });
+}
+
+// Find the first and last frames above the silence threshold
+function speechBounds(samples: Float32Array, rate: number): [number, number] {
+  const frame = Math.max(1, Math.round((rate * SILENCE_FRAME_MS) / 1000));
+  let first = -1;
+  let last = -1;
+  for (let start = 0; start < samples.length; start += frame) {
+    const end = Math.min(start + frame, samples.length);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    if (Math.sqrt(sum / (end - start)) > SILENCE_THRESHOLD) {
+      if (first < 0) first = start;
+      last = end;
+    }
+  }
+  // All silence: keep everything and let STT decide
+  if (first < 0) return [0, samples.length];
+  const padding = Math.round((rate * SILENCE_PADDING_MS) / 1000);
+  return [
+    Math.max(0, first - padding),
+    Math.min(samples.length, last + padding),
+  ];
+}
+
+function normalize(samples: Float32Array): number {
+  let sum = 0;
+  let peak = 0;
+  for (const s of samples) {
+    sum += s * s;
+    peak = Math.max(peak, Math.abs(s));
+  }
+  const rms = Math.sqrt(sum / (samples.length || 1));
+  if (rms === 0 || peak === 0) return 1;
+  const gain = Math.min(TARGET_RMS / rms, PEAK_CEILING / peak, MAX_GAIN);
+  for (let i = 0; i < samples.length; i++) samples[i] *= gain;
+  return gain;
+}
+
+export async function preprocessAudio(
+  buffer: Buffer,
+  mimeType: string,
+  fileName = "audio",
+): Promise<PreparedAudio> {
+  const passThrough: PreparedAudio = {
+    buffer,
+    mimeType,
+    fileName: withExtension(fileName, mimeType),
+    durationSeconds: parseAudioDuration(buffer),
+    offsetSeconds: 0,
+    steps: [],
+  };
+  if (!isEnabled()) return passThrough;
+
+  const rate = getSampleRate();
+  const steps: string[] = [];
+
+  // 1. Decode to WAV: in-process for WAV input, ffmpeg for anything else
+  let audio: WavAudio;
+  try {
+    audio = parseWav(buffer);
+    steps.push("decoded:wav");
+  } catch {
+    const ffmpeg = await findFfmpeg();
+    if (!ffmpeg) {
+      console.log(
+        `[Preprocess] No ffmpeg available, sending ${mimeType} as-is.`,
+      );
+      return passThrough;
+    }
+    try {
+      audio = parseWav(await decodeWithFfmpeg(ffmpeg, buffer, rate));
+      steps.push("decoded:ffmpeg");
+    } catch (err: unknown) {
+      console.error(
+        "[Preprocess] Decoding failed, sending original audio:",
+        err instanceof Error ? err.message : String(err),
+      );
+      return passThrough;
+    }
+  }
+
+  // 2. Downmix to mono 16-bit at the STT rate
+  const target: WavFormat = {
+    audioFormat: 1,
+    channels: 1,
+    sampleRate: rate,
+    bitsPerSample: 16,
+  };
+  if (audio.format.channels !== 1) steps.push("downmixed");
+  if (audio.format.sampleRate !== rate) steps.push("resampled");
+  const [samples] = decodeSamples(convertWav(audio, target));
+
+  // 3. Trim silence at both ends, then normalize what is left
+  const [start, end] = speechBounds(samples, rate);
+  const trimmed = samples.slice(start, end);
+  if (trimmed.length < samples.length) steps.push("trimmed");
+  const gain = normalize(trimmed);
+  if (gain !== 1) steps.push(`gain:${gain.toFixed(2)}`);
+
+  const output = encodeWav({
+    format: target,
+    data: encodeSamples([trimmed], target),
+  });
+  const durationSeconds = trimmed.length / rate;
+  console.log(
+    `[Preprocess] ${steps.join(", ")} -> ${durationSeconds.toFixed(2)}s`,
+  );
+  return {
+    buffer: output,
+    mimeType: "audio/wav",
+    fileName: withExtension(fileName, "audio/wav"),
+    durationSeconds,
+    offsetSeconds: start / rate,
+    steps,
+  };
+}
@@ -0,0 +1,244 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { readFileSync } from "fs";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Authentication for our own /api/* routes. Callers present either an API
+ * key (x-api-key or "Authorization: Bearer <key>") or a signed session token
+ * (Bearer, or the session cookie the web UI gets from /api/auth/session).
+ * Each key carries a list of scopes and each route requires one.
+ *
+ * Keys come from API_KEYS (JSON) or API_KEYS_FILE:
+ *   [{ "id": "web", "keySha256": "<hex>", "scopes": ["translate", "tts"] }]
+ * ("key" with the plain value also works; "*" grants every scope. An
+ * optional "quotas" object overrides the daily limits in lib/rateLimit.ts,
+ * and keys sharing a "workspace" share its glossaries; by default each key
+ * is its own workspace.)
+ *
+ * With no keys configured, development runs open with a warning and
+ * production refuses every request.
+ */
+
+export const SCOPES = [
+  "translate",
+  "tts",
+  "jobs:read",
+  "voices:read",
+  "glossary",
+] as const;
+export type Scope = (typeof SCOPES)[number];
+
+// Per-key daily limits; unset ones fall back to the global defaults
+export type KeyQuotas = Partial<
+  Record<"audioMinutes" | "translateChars" | "ttsChars", number>
+>;
+
+export interface Principal {
+  id: string;
+  scopes: string[];
+  via: "api-key" | "session" | "anonymous";
+  quotas?: KeyQuotas;
+  workspace?: string;
+}
+
+interface ApiKeyEntry {
+  id: string;
+  keySha256: string;
+  scopes: string[];
+  quotas?: KeyQuotas;
+  workspace?: string;
+}
+
+interface SessionPayload {
+  sub: string;
+  scopes: string[];
+  exp: number; // epoch seconds
+}
+
+export const SESSION_COOKIE = "stt_session";
+
+const getSessionTtlSeconds = () =>
+  Number(process.env.SESSION_TTL_MINUTES || 12 * 60) * 60;
+
+const sha256 = (value: string) =>
+  createHash("sha256").update(value).digest("hex");
+
+const safeEqual = (a: string, b: string) =>
+  a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+// Parsed once per distinct configuration
+let keyCache: { source: string; keys: ApiKeyEntry[] } | undefined;
+
+function loadApiKeys(): ApiKeyEntry[] {
+  const file = process.env.API_KEYS_FILE;
+  const source = file ? readFileSync(file, "utf8") : process.env.API_KEYS || "";
+  if (keyCache?.source === source) return keyCache.keys;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const entries: any[] = source.trim() ? JSON.parse(source) : [];
+  if (!Array.isArray(entries)) {
+    throw new Error("API_KEYS must be a JSON array");
+  }
+  const keys = entries.map((entry, i) => {
+    const hash = entry.keySha256 ?? (entry.key ? sha256(entry.key) : "");
+    if (!entry.id || !hash || !Array.isArray(entry.scopes)) {
+      throw new Error(`API key entry ${i} needs id, key/keySha256 and scopes`);
+    }
+    return {
+      id: String(entry.id),
+      keySha256: String(hash).toLowerCase(),
+      scopes: entry.scopes.map(String),
+      ...(entry.quotas ? { quotas: entry.quotas } : {}),
+      ...(entry.workspace ? { workspace: String(entry.workspace) } : {}),
+    };
+  });
+  keyCache = { source, keys };
+  return keys;
+}
+
+export function findApiKey(presented: string): Principal | null {
+  const hash = sha256(presented);
+  const entry = loadApiKeys().find((k) => safeEqual(k.keySha256, hash));
+  return entry
+    ? {
+        id: entry.id,
+        scopes: entry.scopes,
+        via: "api-key",
+        quotas: entry.quotas,
+        workspace: entry.workspace,
+      }
+    : null;
+}
+
+function getSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error("AUTH_SECRET must be set to at least 32 characters");
+  }
+  return secret;
+}
+
+const sign = (data: string) =>
+  createHmac("sha256", getSecret()).update(data).digest("base64url");
+
+/**
+ * Signs a session token carrying the principal's id and scopes. Scopes can
+ * only be narrowed, never widened, compared to the principal's own.
+ */
+export function mintSessionToken(
+  principal: Principal,
+  scopes: string[] = principal.scopes,
+  ttlSeconds = getSessionTtlSeconds(),
+): { token: string; expiresAt: string } {
+  const granted = scopes.filter((s) => hasScope(principal, s));
+  const exp = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const payload: SessionPayload = { sub: principal.id, scopes: granted, exp };
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return {
+    token: `${data}.${sign(data)}`,
+    expiresAt: new Date(exp * 1000).toISOString(),
+  };
+}
+
+export function verifySessionToken(token: string): Principal | null {
+  const [data, signature] = token.split(".");
+  if (!data || !signature || !safeEqual(sign(data), signature)) return null;
+  try {
+    const payload = JSON.parse(
+      Buffer.from(data, "base64url").toString("utf8"),
+    ) as SessionPayload;
+    if (payload.exp * 1000 < Date.now()) return null;
+    // Removing a key ends its sessions, and scopes never outgrow the key's
+    const entry = loadApiKeys().find((k) => k.id === payload.sub);
+    if (!entry) return null;
+    const key: Principal = {
+      id: entry.id,
+      scopes: entry.scopes,
+      via: "session",
+    };
+    return {
+      ...key,
+      scopes: payload.scopes.filter((s) => hasScope(key, s)),
+      quotas: entry.quotas,
+      workspace: entry.workspace,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Glossaries and other shared settings belong to the workspace
+export const workspaceOf = (principal: Principal) =>
+  principal.workspace ?? principal.id;
+
+export function hasScope(principal: Principal, scope: string): boolean {
+  return principal.scopes.includes("*") || principal.scopes.includes(scope);
+}
+
+let warnedOpen = false;
+
+/**
+ * Who is calling, or null when no valid credential was presented. Throws
+ * when auth is misconfigured.
+ */
+export function authenticate(req: NextRequest): Principal | null {
+  if (loadApiKeys().length === 0) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("No API keys are configured");
+    }
+    if (!warnedOpen) {
+      warnedOpen = true;
+      console.warn("[Auth] No API keys configured, API is open (dev only).");
+    }
+    return { id: "anonymous", scopes: ["*"], via: "anonymous" };
+  }
+
+  const bearer = req.headers
+    .get("authorization")
+    ?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const apiKey = req.headers.get("x-api-key") ?? bearer;
+  // Session tokens are "<payload>.<signature>"; API keys have no dot
+  if (apiKey && !apiKey.includes(".")) return findApiKey(apiKey);
+  const session = bearer ?? req.cookies.get(SESSION_COOKIE)?.value;
+  return session ? verifySessionToken(session) : null;
+}
+
+/**
+ * Route guard: returns the principal, or the 401/403/503 response to send.
+ *
+ *   const auth = requireScope(req, "translate");
+ *   if (auth instanceof NextResponse) return auth;
+ *
+ * Without a scope, any authenticated caller passes.
+ */
+export function requireScope(
+  req: NextRequest,
+  scope?: Scope,
+): Principal | NextResponse {
+  let principal: Principal | null;
+  try {
+    principal = authenticate(req);
+  } catch (err: unknown) {
+    console.error("[Auth] Misconfigured:", err);
+    return NextResponse.json(
+      {
+        error: "Authentication is not configured",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 503 },
+    );
+  }
+  if (!principal) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401, headers: { "WWW-Authenticate": "Bearer" } },
+    );
+  }
+  if (scope && !hasScope(principal, scope)) {
+    return NextResponse.json(
+      { error: `Missing scope: ${scope}` },
+      { status: 403 },
+    );
+  }
+  return principal;
+}
@@ -0,0 +1,34 @@
+import { readFileSync } from "fs";
+
+/**
+ * Server-only store for upstream provider credentials. Values come from the
+ * environment (NAME) or a mounted secret file (NAME_FILE) and are never
+ * returned by an API route or read from NEXT_PUBLIC_* variables, which Next.js
+ * inlines into the browser bundle.
+ */
+
+const cache = new Map<string, string>();
+
+export function getCredential(name: string): string {
+  if (typeof window !== "undefined") {
+    throw new Error("Credentials are only available on the server");
+  }
+  const cached = cache.get(name);
+  if (cached) return cached;
+
+  if (process.env[`NEXT_PUBLIC_${name}`]) {
+    console.warn(
+      `[Credentials] NEXT_PUBLIC_${name} is set and ignored: it would ship to the browser. Use ${name} instead.`,
+    );
+  }
+
+  const file = process.env[`${name}_FILE`];
+  const value = file
+    ? readFileSync(file, "utf8").trim()
+    : process.env[name]?.trim();
+  if (!value) {
+    throw new Error(`${name} is not configured`);
+  }
+  cache.set(name, value);
+  return value;
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  glossaryFromCsv,
+  glossaryToCsv,
+  maskTerms,
+  restoreTerms,
+  type GlossaryTerm,
+} from "./glossary";
+
+const terms: GlossaryTerm[] = [
+  { source: "New York", target: "न्यूयॉर्क" },
+  { source: "New York City", target: "न्यूयॉर्क शहर" },
+  { source: "Sarvam", doNotTranslate: true },
+  { source: "GIF", pronunciation: "jif" },
+];
+
+describe("maskTerms and restoreTerms", () => {
+  it("masks whole terms, longest first, and restores their targets", () => {
+    const masked = maskTerms(
+      "sarvam opened in New York City, not New Yorker land",
+      terms,
+    );
+    expect(masked.text).toBe("[G0] opened in [G1], not New Yorker land");
+    // Do-not-translate keeps the speaker's casing
+    expect(masked.replacements).toEqual(["sarvam", "न्यूयॉर्क शहर"]);
+
+    const translated = "[G0] ने [G1] में शुरुआत की";
+    expect(restoreTerms(translated, masked)).toBe(
+      "sarvam ने न्यूयॉर्क शहर में शुरुआत की",
+    );
+  });
+
+  it("leaves pronunciation-only terms for the translator", () => {
+    expect(maskTerms("A GIF of it", terms)).toEqual({
+      text: "A GIF of it",
+      replacements: [],
+    });
+  });
+
+  it("restores placeholders the translator respaced", () => {
+    const masked = maskTerms("Hello Sarvam", terms);
+    expect(restoreTerms("नमस्ते [ G 0 ]", masked)).toBe("नमस्ते Sarvam");
+  });
+
+  it("warns about dropped placeholders and keeps unknown ones", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const masked = maskTerms("Sarvam in New York", terms);
+    expect(restoreTerms("[G1] [G7]", masked)).toBe("न्यूयॉर्क [G7]");
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("1 of 2 terms were lost"),
+    );
+    warn.mockRestore();
+  });
+});
+
+describe("glossaryToCsv and glossaryFromCsv", () => {
+  it("round-trips terms, quoting commas, quotes and newlines", () => {
+    const tricky: GlossaryTerm[] = [
+      ...terms,
+      { source: 'Say "hi", then', target: "line one\nline two" },
+      { source: "Mumbai", target: "मुंबई", targetLanguage: "hi-IN" },
+    ];
+    const csv = glossaryToCsv(tricky);
+    expect(csv.split("\r\n")[0]).toBe(
+      "source,target,target_language,do_not_translate,pronunciation",
+    );
+    expect(glossaryFromCsv(csv)).toEqual(tricky);
+  });
+
+  it("escapes cells a spreadsheet would run as formulas", () => {
+    const csv = glossaryToCsv([
+      { source: "=HYPERLINK(1)", target: "+1" },
+      { source: "@sum", target: "-ish" },
+      { source: "a=b", target: "x" },
+    ]);
+    expect(csv.split("\r\n").slice(1, 4)).toEqual([
+      "'=HYPERLINK(1),'+1,,,",
+      "'@sum,'-ish,,,",
+      "a=b,x,,,",
+    ]);
+    expect(glossaryFromCsv(csv).map((t) => [t.source, t.target])).toEqual([
+      ["=HYPERLINK(1)", "+1"],
+      ["@sum", "-ish"],
+      ["a=b", "x"],
+    ]);
+  });
+
+  it("reads columns in any order, a BOM and yes/no flags", () => {
+    const csv =
+      "\uFEFFPronunciation,Do_Not_Translate,Source,Notes\n" +
+      ",yes,Sarvam,brand\n" +
+      "jif,,GIF,\n";
+    expect(glossaryFromCsv(csv)).toEqual([
+      { source: "Sarvam", doNotTranslate: true },
+      { source: "GIF", pronunciation: "jif" },
+    ]);
+  });
+
+  it("rejects a header without a source column and invalid rows", () => {
+    expect(() => glossaryFromCsv("term,target\nA,B\n")).toThrow(
+      /header must include/,
+    );
+    expect(() => glossaryFromCsv("source,target\nA,\n")).toThrow(
+      /Term 1: set a target/,
+    );
+  });
+});
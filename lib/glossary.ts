@@ -0,0 +1,325 @@
+/**
+ * Glossary terms and how they are applied. Before translation each source
+ * term is swapped for a numbered placeholder the translator leaves alone,
+ * and afterwards the placeholder is replaced by the forced target term, or
+ * by the source term itself for do-not-translate entries. Before TTS,
+ * terms with a pronunciation are rewritten the way they should be spoken.
+ *
+ * Client-safe: no Node APIs, so the UI can share the CSV helpers.
+ */
+
+export interface GlossaryTerm {
+  source: string; // as it appears in the transcript
+  target?: string; // forced translation; unset for do-not-translate terms
+  // Only applies when translating into this language; unset for all targets
+  targetLanguage?: string;
+  doNotTranslate?: boolean;
+  // How TTS should say the term (a respelling), instead of its written form
+  pronunciation?: string;
+}
+
+export const GLOSSARY_MAX_TERMS = 1000;
+const TERM_MAX_CHARS = 200;
+const NAME_MAX_CHARS = 100;
+
+const CSV_COLUMNS = [
+  "source",
+  "target",
+  "target_language",
+  "do_not_translate",
+  "pronunciation",
+] as const;
+
+const LANGUAGE_CODE = /^[a-z]{2,3}-[A-Z]{2}$/;
+
+const clean = (value: unknown, field: string, row: number) => {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string") {
+    throw new Error(`Term ${row}: ${field} must be a string`);
+  }
+  const trimmed = value.trim();
+  if (trimmed.length > TERM_MAX_CHARS) {
+    throw new Error(`Term ${row}: ${field} is over ${TERM_MAX_CHARS} chars`);
+  }
+  return trimmed || undefined;
+};
+
+/** Validates terms from a request body or CSV import. Throws on bad input. */
+export function parseGlossaryTerms(input: unknown): GlossaryTerm[] {
+  if (!Array.isArray(input)) {
+    throw new Error("terms must be an array");
+  }
+  if (input.length > GLOSSARY_MAX_TERMS) {
+    throw new Error(`A glossary holds at most ${GLOSSARY_MAX_TERMS} terms`);
+  }
+  return input.map((raw, i) => {
+    const row = i + 1;
+    if (!raw || typeof raw !== "object") {
+      throw new Error(`Term ${row} must be an object`);
+    }
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const entry = raw as Record<string, any>;
+    const source = clean(entry.source, "source", row);
+    if (!source) throw new Error(`Term ${row}: source is required`);
+    const target = clean(entry.target, "target", row);
+    const targetLanguage = clean(entry.targetLanguage, "targetLanguage", row);
+    const pronunciation = clean(entry.pronunciation, "pronunciation", row);
+    const doNotTranslate = entry.doNotTranslate === true;
+
+    if (targetLanguage && !LANGUAGE_CODE.test(targetLanguage)) {
+      throw new Error(`Term ${row}: invalid targetLanguage ${targetLanguage}`);
+    }
+    if (!doNotTranslate && !target && !pronunciation) {
+      throw new Error(
+        `Term ${row}: set a target, doNotTranslate or a pronunciation`,
+      );
+    }
+    if (doNotTranslate && target) {
+      throw new Error(`Term ${row}: a do-not-translate term has no target`);
+    }
+    return {
+      source,
+      ...(target ? { target } : {}),
+      ...(targetLanguage ? { targetLanguage } : {}),
+      ...(doNotTranslate ? { doNotTranslate } : {}),
+      ...(pronunciation ? { pronunciation } : {}),
+    };
+  });
+}
+
+// Terms that apply to one target language; a language-specific entry wins
+// over a general one for the same source term
+export function termsFor(
+  terms: GlossaryTerm[] | undefined,
+  targetLanguage: string,
+): GlossaryTerm[] {
+  const bySource = new Map<string, GlossaryTerm>();
+  for (const term of terms ?? []) {
+    if (term.targetLanguage && term.targetLanguage !== targetLanguage) continue;
+    const key = term.source.toLowerCase();
+    if (!term.targetLanguage && bySource.get(key)?.targetLanguage) continue;
+    bySource.set(key, term);
+  }
+  return [...bySource.values()];
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Whole-term matches in any script; longest terms first so "New York City"
+// beats "New York"
+function termPattern(sources: string[]): RegExp | null {
+  if (sources.length === 0) return null;
+  const alternatives = [...sources]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|");
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}\\p{M}])(${alternatives})(?![\\p{L}\\p{N}\\p{M}])`,
+    "giu",
+  );
+}
+
+// Placeholders are plain ASCII the translator copies through unchanged
+const placeholder = (i: number) => `[G${i}]`;
+const PLACEHOLDER = /\[\s*G\s*(\d+)\s*\]/g;
+
+export interface MaskedText {
+  text: string;
+  // Replacement for each placeholder, by index
+  replacements: string[];
+}
+
+/**
+ * Swaps every translatable glossary term in `text` for a placeholder.
+ * Terms that only carry a pronunciation are left for the translator.
+ */
+export function maskTerms(text: string, terms: GlossaryTerm[]): MaskedText {
+  const masked = terms.filter((t) => t.doNotTranslate || t.target);
+  const pattern = termPattern(masked.map((t) => t.source));
+  if (!pattern) return { text, replacements: [] };
+
+  const bySource = new Map(masked.map((t) => [t.source.toLowerCase(), t]));
+  const replacements: string[] = [];
+  const maskedText = text.replace(pattern, (match) => {
+    const term = bySource.get(match.toLowerCase());
+    // Do-not-translate keeps the speaker's own spelling and casing
+    replacements.push(term?.target ?? match);
+    return placeholder(replacements.length - 1);
+  });
+  return { text: maskedText, replacements };
+}
+
+/**
+ * Puts the glossary terms back into translated text. Placeholders the
+ * translator dropped are logged; there is nowhere reliable to re-insert them.
+ */
+export function restoreTerms(translated: string, masked: MaskedText): string {
+  if (masked.replacements.length === 0) return translated;
+  const seen = new Set<number>();
+  const restored = translated.replace(PLACEHOLDER, (match, index) => {
+    const replacement = masked.replacements[Number(index)];
+    if (replacement === undefined) return match;
+    seen.add(Number(index));
+    return replacement;
+  });
+  if (seen.size < masked.replacements.length) {
+    console.warn(
+      `[Glossary] ${masked.replacements.length - seen.size} of ${masked.replacements.length} terms were lost in translation`,
+    );
+  }
+  return restored;
+}
+
+/** Rewrites terms that have a pronunciation so TTS says them right. */
+export function applyPronunciations(
+  text: string,
+  terms: GlossaryTerm[],
+): string {
+  // After translation the term reads as its target (or stays as the source)
+  const spoken = new Map<string, string>();
+  for (const term of terms) {
+    if (!term.pronunciation) continue;
+    spoken.set((term.target ?? term.source).toLowerCase(), term.pronunciation);
+    spoken.set(term.source.toLowerCase(), term.pronunciation);
+  }
+  const pattern = termPattern([...spoken.keys()]);
+  if (!pattern) return text;
+  return text.replace(
+    pattern,
+    (match) => spoken.get(match.toLowerCase()) ?? match,
+  );
+}
+
+// Spreadsheets run cells starting with these as formulas; a leading
+// apostrophe makes them text, and is dropped again on import
+const FORMULA_START = /^[=+\-@]/;
+const ESCAPED_FORMULA = /^'(?=[=+\-@])/;
+
+// RFC 4180 field quoting, after neutralizing formula-like cells
+const csvField = (value: string | undefined) => {
+  const raw = value ?? "";
+  const s = FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export function glossaryToCsv(terms: GlossaryTerm[]): string {
+  const rows = terms.map((t) =>
+    [
+      t.source,
+      t.target,
+      t.targetLanguage,
+      t.doNotTranslate ? "true" : "",
+      t.pronunciation,
+    ]
+      .map(csvField)
+      .join(","),
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+// Rows of fields, honouring quoted fields with commas, quotes and newlines
+function parseCsvRows(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const text = csv.replace(/^\uFEFF/, ""); // spreadsheet BOM
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+/**
+ * Reads a glossary CSV with a header row naming the columns (source and at
+ * least one of target, do_not_translate, pronunciation). Column order is
+ * free and unknown columns are ignored. Throws on invalid rows.
+ */
+export function glossaryFromCsv(csv: string): GlossaryTerm[] {
+  const [header, ...rows] = parseCsvRows(csv);
+  if (!header) return [];
+  const columns = header.map((h) => h.trim().toLowerCase());
+  if (!columns.includes("source")) {
+    throw new Error(`CSV header must include: ${CSV_COLUMNS.join(", ")}`);
+  }
+  const at = (row: string[], name: (typeof CSV_COLUMNS)[number]) => {
+    const i = columns.indexOf(name);
+    return i >= 0 ? row[i]?.replace(ESCAPED_FORMULA, "") : undefined;
+  };
+  return parseGlossaryTerms(
+    rows.map((row) => ({
+      source: at(row, "source"),
+      target: at(row, "target"),
+      targetLanguage: at(row, "target_language"),
+      doNotTranslate: /^(true|yes|1|y)$/i.test(
+        at(row, "do_not_translate")?.trim() ?? "",
+      ),
+      pronunciation: at(row, "pronunciation"),
+    })),
+  );
+}
+
+/**
+ * Reads a glossary create/update body: JSON `{ name?, terms? }`, or a CSV
+ * upload (text/csv) whose name comes from the query string. Throws on
+ * invalid input.
+ */
+export function parseGlossaryBody(
+  contentType: string,
+  body: string,
+  nameParam?: string | null,
+): { name?: string; terms?: GlossaryTerm[] } {
+  const isCsv = /^text\/(csv|plain)/i.test(contentType);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let json: any = {};
+  if (!isCsv) {
+    try {
+      json = JSON.parse(body || "{}");
+    } catch {
+      throw new Error("Body must be JSON or text/csv");
+    }
+  }
+
+  const name = json.name ?? nameParam ?? undefined;
+  if (name !== undefined) {
+    if (typeof name !== "string" || !name.trim()) {
+      throw new Error("name must be a non-empty string");
+    }
+    if (name.trim().length > NAME_MAX_CHARS) {
+      throw new Error(`name is over ${NAME_MAX_CHARS} chars`);
+    }
+  }
+
+  let terms: GlossaryTerm[] | undefined;
+  if (isCsv) terms = glossaryFromCsv(body);
+  else if (json.terms !== undefined) terms = parseGlossaryTerms(json.terms);
+  return { name: name?.trim(), terms };
+}
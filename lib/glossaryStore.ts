@@ -0,0 +1,158 @@
+import { createHash, randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { GlossaryTerm } from "./glossary";
+
+/**
+ * File-backed store for glossaries. Each glossary is one JSON document under
+ * GLOSSARY_STORE_DIR (default `.data/glossaries`), in a directory per
+ * workspace, written atomically via rename like the job store.
+ */
+
+export interface Glossary {
+  id: string;
+  workspace: string;
+  name: string;
+  terms: GlossaryTerm[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What jobs keep of a glossary, so later edits don't change a running job
+export type GlossarySnapshot = Pick<Glossary, "id" | "terms">;
+
+export type GlossarySummary = Omit<Glossary, "terms"> & { termCount: number };
+
+const getStoreDir = () =>
+  process.env.GLOSSARY_STORE_DIR ||
+  path.join(process.cwd(), ".data", "glossaries");
+
+const VALID_ID = /^[A-Za-z0-9_-]{1,128}$/;
+
+// Workspace names come from key config and may hold any character
+const workspaceDir = (workspace: string) =>
+  path.join(
+    getStoreDir(),
+    createHash("sha256").update(workspace).digest("hex").slice(0, 32),
+  );
+
+const glossaryPath = (workspace: string, id: string) => {
+  if (!VALID_ID.test(id)) {
+    throw new Error(`Invalid glossary id: ${id}`);
+  }
+  return path.join(workspaceDir(workspace), `${id}.json`);
+};
+
+async function writeGlossary(glossary: Glossary): Promise<void> {
+  const file = glossaryPath(glossary.workspace, glossary.id);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(glossary));
+  await fs.rename(tmp, file);
+}
+
+export async function getGlossary(
+  workspace: string,
+  id: string,
+): Promise<Glossary | null> {
+  if (!VALID_ID.test(id)) return null;
+  try {
+    return JSON.parse(
+      await fs.readFile(glossaryPath(workspace, id), "utf8"),
+    ) as Glossary;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+export async function listGlossaries(
+  workspace: string,
+): Promise<GlossarySummary[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(workspaceDir(workspace));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+  const glossaries = await Promise.all(
+    files
+      .filter((f) => f.endsWith(".json"))
+      .map((f) => getGlossary(workspace, f.slice(0, -".json".length))),
+  );
+  return glossaries
+    .filter((g): g is Glossary => g !== null)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(({ terms, ...rest }) => ({ ...rest, termCount: terms.length }));
+}
+
+/** Name and terms must already be validated (parseGlossaryBody). */
+export async function createGlossary(
+  workspace: string,
+  name: string,
+  terms: GlossaryTerm[],
+): Promise<Glossary> {
+  const now = new Date().toISOString();
+  const glossary: Glossary = {
+    id: randomUUID(),
+    workspace,
+    name,
+    terms,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await writeGlossary(glossary);
+  return glossary;
+}
+
+export async function updateGlossary(
+  workspace: string,
+  id: string,
+  patch: { name?: string; terms?: GlossaryTerm[] },
+): Promise<Glossary | null> {
+  const glossary = await getGlossary(workspace, id);
+  if (!glossary) return null;
+  const updated: Glossary = {
+    ...glossary,
+    ...(patch.name ? { name: patch.name } : {}),
+    ...(patch.terms ? { terms: patch.terms } : {}),
+    updatedAt: new Date().toISOString(),
+  };
+  await writeGlossary(updated);
+  return updated;
+}
+
+export async function deleteGlossary(
+  workspace: string,
+  id: string,
+): Promise<boolean> {
+  if (!VALID_ID.test(id)) return false;
+  try {
+    await fs.unlink(glossaryPath(workspace, id));
+    return true;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return false;
+    throw err;
+  }
+}
+
+/**
+ * Looks up the glossary a translate request names (form field or JSON
+ * `glossaryId`) and returns the copy the job keeps. No id means no glossary;
+ * an id outside the caller's workspace throws.
+ */
+export async function resolveGlossary(
+  workspace: string,
+  glossaryId: unknown,
+): Promise<GlossarySnapshot | undefined> {
+  if (glossaryId === null || glossaryId === undefined || glossaryId === "") {
+    return undefined;
+  }
+  const glossary =
+    typeof glossaryId === "string"
+      ? await getGlossary(workspace, glossaryId)
+      : null;
+  if (!glossary) throw new Error(`Glossary not found: ${glossaryId}`);
+  return { id: glossary.id, terms: glossary.terms };
+}
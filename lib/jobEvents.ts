@@ -0,0 +1,44 @@
+import { EventEmitter } from "events";
+import type { JobState } from "./jobStore";
+
+/**
+ * In-process pub/sub for job progress. Stages publish here as they run and
+ * the SSE route relays events to the browser. Events are not persisted: a
+ * late subscriber gets a snapshot built from the job record instead.
+ */
+
+export type JobEvent =
+  | { type: "state"; state: JobState }
+  | { type: "upload_committed" }
+  | { type: "stt_running"; providerState?: string }
+  | {
+      type: "translation_chunk";
+      language?: string;
+      index: number;
+      total: number;
+    }
+  | { type: "tts_chunk"; language?: string; index: number; total: number }
+  | { type: "merged" }
+  | { type: "completed" }
+  | { type: "failed"; error: string };
+
+// Survive module reloads in `next dev`
+const globalForEvents = globalThis as unknown as {
+  jobEventBus?: EventEmitter;
+};
+const bus = (globalForEvents.jobEventBus ??= new EventEmitter());
+bus.setMaxListeners(0);
+
+export function publishJobEvent(jobId: string, event: JobEvent): void {
+  bus.emit(jobId, event);
+}
+
+export function subscribeJobEvents(
+  jobId: string,
+  listener: (event: JobEvent) => void,
+): () => void {
+  bus.on(jobId, listener);
+  return () => {
+    bus.off(jobId, listener);
+  };
+}
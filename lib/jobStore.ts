@@ -0,0 +1,257 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { SpeakerConfig } from "./providers";
+import type { TranscriptSegment } from "./segments";
+import type { GlossarySnapshot } from "./glossaryStore";
+import type { TranslationOptions } from "./translationOptions";
+import type { DetectedLanguage } from "./languages";
+import { publishJobEvent } from "./jobEvents";
+
+/**
+ * File-backed store for translation jobs. Each job is one JSON document under
+ * JOB_STORE_DIR (default `.data/jobs`), written atomically via rename so a
+ * crash never leaves a half-written record behind.
+ */
+
+export type JobState =
+  | "created"
+  | "uploaded"
+  | "transcribing"
+  | "translating"
+  | "synthesizing"
+  | "done"
+  | "failed";
+
+// "text" jobs start from typed text and skip STT
+export type JobMode = "sync" | "split" | "batch" | "text";
+
+// One target language's output; multi-language jobs keep one per target
+export interface TranslationOutput {
+  language: string;
+  translatedText: string;
+  segments?: TranscriptSegment[];
+  audioBase64?: string;
+  warning?: string;
+  // Corrected by hand after the job finished, so it has no timestamps
+  edited?: boolean;
+}
+
+// Where a direct browser upload goes. The URL never leaves the server; the
+// browser proves access with the token.
+export interface UploadGrant {
+  url: string;
+  token: string;
+  expiresAt: string;
+}
+
+export interface JobRecord {
+  id: string;
+  mode: JobMode;
+  state: JobState;
+  fileName: string;
+  mimeType: string;
+  targetLanguage: string;
+  // Every requested target, in order; targetLanguage is the first of them
+  targetLanguages?: string[];
+  speakerConfig: SpeakerConfig;
+  // Batch STT splits the transcript by speaker when set
+  diarization?: boolean;
+  // Decoded length of the uploaded audio, when it could be measured
+  durationSeconds?: number;
+  // Leading silence trimmed before STT, added back to its timestamps
+  audioOffsetSeconds?: number;
+  // Set while the browser uploads in blocks, cleared when the job starts
+  upload?: UploadGrant;
+  // Rate-limit key of the caller (lib/rateLimit.ts), charged for usage
+  usageKey?: string;
+  // Copy of the glossary picked at creation, applied to every target
+  glossary?: GlossarySnapshot;
+  // Tone, script, numerals and speaker gender for every target
+  translationOptions?: TranslationOptions;
+  // Text jobs may ask for the translation alone, without TTS
+  skipSpeech?: boolean;
+  // Spoken language the caller picked; unset means auto-detect
+  requestedSourceLanguage?: string;
+  history: { state: JobState; at: string }[];
+  createdAt: string;
+  updatedAt: string;
+  // Language translated from: the pick, else what STT detected, else "auto"
+  sourceLanguage?: string;
+  detectedLanguage?: DetectedLanguage;
+  // Detection disagreed with the pick, or wasn't confident
+  languageWarning?: string;
+  originalText?: string;
+  translatedText?: string;
+  // Timed cues from STT, with translations filled in once translated
+  segments?: TranscriptSegment[];
+  // TTS voice per diarized source speaker, keyed by speaker id
+  speakerVoices?: Record<string, SpeakerConfig>;
+  audioBase64?: string;
+  translations?: TranslationOutput[];
+  warning?: string;
+  error?: string;
+}
+
+export type NewJob = Pick<
+  JobRecord,
+  "id" | "mode" | "fileName" | "mimeType" | "targetLanguage" | "speakerConfig"
+> &
+  Pick<
+    Partial<JobRecord>,
+    | "targetLanguages"
+    | "diarization"
+    | "durationSeconds"
+    | "audioOffsetSeconds"
+    | "upload"
+    | "usageKey"
+    | "glossary"
+    | "translationOptions"
+    | "requestedSourceLanguage"
+    | "skipSpeech"
+  >;
+
+export type JobPatch = Partial<
+  Omit<JobRecord, "id" | "state" | "history" | "createdAt" | "updatedAt">
+>;
+
+const getStoreDir = () =>
+  process.env.JOB_STORE_DIR || path.join(process.cwd(), ".data", "jobs");
+
+// Job ids come from clients and upstream providers, keep them path-safe
+const VALID_ID = /^[A-Za-z0-9_-]{1,128}$/;
+
+const jobPath = (id: string) => {
+  if (!VALID_ID.test(id)) {
+    throw new Error(`Invalid job id: ${id}`);
+  }
+  return path.join(getStoreDir(), `${id}.json`);
+};
+
+// Serialize read-modify-write cycles per job within this process
+const locks = new Map<string, Promise<unknown>>();
+
+async function withLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+  const previous = locks.get(id) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(fn);
+  locks.set(id, current);
+  try {
+    return await current;
+  } finally {
+    if (locks.get(id) === current) locks.delete(id);
+  }
+}
+
+async function readJob(id: string): Promise<JobRecord | null> {
+  try {
+    return JSON.parse(await fs.readFile(jobPath(id), "utf8")) as JobRecord;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+async function writeJob(job: JobRecord): Promise<void> {
+  const file = jobPath(job.id);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(job));
+  await fs.rename(tmp, file);
+}
+
+export async function createJob(input: NewJob): Promise<JobRecord> {
+  return withLock(input.id, async () => {
+    if (await readJob(input.id)) {
+      throw new Error(`Job already exists: ${input.id}`);
+    }
+    const now = new Date().toISOString();
+    const job: JobRecord = {
+      ...input,
+      state: "created",
+      history: [{ state: "created", at: now }],
+      createdAt: now,
+      updatedAt: now,
+    };
+    await writeJob(job);
+    return job;
+  });
+}
+
+export async function getJob(id: string): Promise<JobRecord | null> {
+  if (!VALID_ID.test(id)) return null;
+  return readJob(id);
+}
+
+/**
+ * Patches a job without moving it. With `states`, only a job currently in
+ * one of them is patched, and with `version`, only one whose updatedAt still
+ * matches the record the caller read; otherwise null is returned.
+ */
+export async function updateJob(
+  id: string,
+  patch: JobPatch,
+  states?: JobState[],
+  version?: string,
+): Promise<JobRecord | null> {
+  return withLock(id, async () => {
+    const job = await readJob(id);
+    if (!job) throw new Error(`Job not found: ${id}`);
+    if (states && !states.includes(job.state)) return null;
+    if (version !== undefined && job.updatedAt !== version) return null;
+    const updated = { ...job, ...patch, updatedAt: new Date().toISOString() };
+    await writeJob(updated);
+    return updated;
+  });
+}
+
+function publishTransition(job: JobRecord): void {
+  publishJobEvent(job.id, { type: "state", state: job.state });
+  if (job.state === "uploaded") {
+    publishJobEvent(job.id, { type: "upload_committed" });
+  } else if (job.state === "done") {
+    publishJobEvent(job.id, { type: "completed" });
+  } else if (job.state === "failed") {
+    publishJobEvent(job.id, {
+      type: "failed",
+      error: job.error || "Job failed",
+    });
+  }
+}
+
+/**
+ * Moves a job to `to` only if it is currently in one of `from`. Returns null
+ * when the job is in any other state, which lets concurrent callers race for
+ * a stage without running it twice.
+ */
+export async function transitionJob(
+  id: string,
+  from: JobState[],
+  to: JobState,
+  patch: JobPatch = {},
+): Promise<JobRecord | null> {
+  const transitioned = await withLock(id, async () => {
+    const job = await readJob(id);
+    if (!job) throw new Error(`Job not found: ${id}`);
+    if (!from.includes(job.state)) return null;
+    const now = new Date().toISOString();
+    const updated: JobRecord = {
+      ...job,
+      ...patch,
+      state: to,
+      history: [...job.history, { state: to, at: now }],
+      updatedAt: now,
+    };
+    await writeJob(updated);
+    return updated;
+  });
+  if (transitioned) publishTransition(transitioned);
+  return transitioned;
+}
+
+export async function failJob(id: string, error: string): Promise<void> {
+  await transitionJob(
+    id,
+    ["created", "uploaded", "transcribing", "translating", "synthesizing"],
+    "failed",
+    { error },
+  );
+}
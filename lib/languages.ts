@@ -0,0 +1,114 @@
+// Languages Sarvam can translate into and speak, shared by the UI and routes
+export const SUPPORTED_LANGUAGES = [
+  { code: "bn-IN", name: "Bengali" },
+  { code: "en-IN", name: "English" },
+  { code: "gu-IN", name: "Gujarati" },
+  { code: "hi-IN", name: "Hindi" },
+  { code: "kn-IN", name: "Kannada" },
+  { code: "ml-IN", name: "Malayalam" },
+  { code: "mr-IN", name: "Marathi" },
+  { code: "od-IN", name: "Odia" },
+  { code: "pa-IN", name: "Punjabi" },
+  { code: "ta-IN", name: "Tamil" },
+  { code: "te-IN", name: "Telugu" },
+];
+
+export const languageName = (code: string) =>
+  SUPPORTED_LANGUAGES.find((l) => l.code === code)?.name ?? code;
+
+/**
+ * Reads the requested target languages: a list (array, repeated form field
+ * or comma-separated string) or the single legacy targetLanguage. Duplicates
+ * are dropped, order is kept, and unsupported codes throw.
+ */
+export function parseTargetLanguages(
+  list: unknown,
+  single?: unknown,
+): string[] {
+  const raw = [...(Array.isArray(list) ? list : [list]), single]
+    .filter((v): v is string => typeof v === "string")
+    .flatMap((v) => v.split(","))
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+  const languages = [...new Set(raw)];
+  const unsupported = languages.filter(
+    (code) => !SUPPORTED_LANGUAGES.some((l) => l.code === code),
+  );
+  if (unsupported.length > 0) {
+    throw new Error(`Unsupported target language: ${unsupported.join(", ")}`);
+  }
+  return languages;
+}
+
+// Source language that leaves identification to STT (and Translate)
+export const AUTO_DETECT = "auto";
+
+// Auto-detected languages below this confidence are flagged in the result
+const LOW_CONFIDENCE = 0.6;
+
+// What STT identified the audio as, with its probability when reported
+export interface DetectedLanguage {
+  code: string;
+  confidence?: number;
+}
+
+/**
+ * Reads the requested source language: a supported code, or undefined for
+ * auto-detect (missing, empty or "auto"). Unsupported codes throw.
+ */
+export function parseSourceLanguage(input: unknown): string | undefined {
+  if (input === undefined || input === null || input === "") return undefined;
+  if (typeof input !== "string") {
+    throw new Error("sourceLanguage must be a string");
+  }
+  const code = input.trim();
+  if (code === AUTO_DETECT) return undefined;
+  if (!SUPPORTED_LANGUAGES.some((l) => l.code === code)) {
+    throw new Error(`Unsupported source language: ${code}`);
+  }
+  return code;
+}
+
+const percent = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
+/**
+ * Settles the source language once STT has run. The user's pick always wins;
+ * otherwise it is what STT detected, or "auto" when STT reported nothing, so
+ * Translate identifies it rather than assuming Hindi. The warning says when
+ * detection disagrees with the pick or isn't sure.
+ */
+export function resolveSourceLanguage(
+  requested: string | undefined,
+  stt: { languageCode?: string; languageProbability?: number },
+): {
+  sourceLanguage: string;
+  detectedLanguage?: DetectedLanguage;
+  warning?: string;
+} {
+  const detectedLanguage =
+    stt.languageCode && stt.languageCode !== AUTO_DETECT
+      ? {
+          code: stt.languageCode,
+          ...(stt.languageProbability !== undefined
+            ? { confidence: stt.languageProbability }
+            : {}),
+        }
+      : undefined;
+  const sourceLanguage = requested ?? detectedLanguage?.code ?? AUTO_DETECT;
+
+  let warning: string | undefined;
+  if (requested && detectedLanguage && detectedLanguage.code !== requested) {
+    warning = `The audio sounds like ${languageName(detectedLanguage.code)}, not ${languageName(requested)}. It was still translated from ${languageName(requested)}.`;
+  } else if (
+    !requested &&
+    detectedLanguage?.confidence !== undefined &&
+    detectedLanguage.confidence < LOW_CONFIDENCE
+  ) {
+    warning = `Detected ${languageName(detectedLanguage.code)} with low confidence (${percent(detectedLanguage.confidence)}). Pick the source language if that's wrong.`;
+  } else if (!requested && !detectedLanguage) {
+    warning =
+      "The spoken language couldn't be identified. Pick the source language for a better translation.";
+  }
+  return { sourceLanguage, detectedLanguage, ...(warning ? { warning } : {}) };
+}
@@ -0,0 +1,71 @@
+import type { VoiceSelection } from "./voices";
+import type { TranslationOptions } from "./translationOptions";
+import type { DetectedLanguage } from "./languages";
+
+/**
+ * Message shapes for the live translation WebSocket (`/api/live`, served by
+ * server.js). Binary frames carry raw MediaRecorder timeslices for the
+ * current segment; everything else is JSON.
+ */
+
+export const LIVE_SOCKET_PATH = "/api/live";
+
+export type LiveClientMessage =
+  | {
+      type: "start";
+      targetLanguage: string;
+      mimeType: string;
+      // Spoken language; unset lets STT detect it per segment
+      sourceLanguage?: string;
+      voice?: VoiceSelection;
+      // Glossary applied to every segment's translation and speech
+      glossaryId?: string;
+      translationOptions?: TranslationOptions;
+    }
+  // The recorder closed the current segment (pause detected or stopped)
+  | { type: "segment_end" }
+  | { type: "stop" };
+
+export type LiveServerMessage =
+  | { type: "ready" }
+  | { type: "partial"; segment: number; text: string }
+  | {
+      type: "transcript";
+      segment: number;
+      text: string;
+      languageCode: string;
+      detectedLanguage?: DetectedLanguage;
+      languageWarning?: string;
+    }
+  | { type: "translation"; segment: number; text: string; warning?: string }
+  | {
+      type: "audio";
+      segment: number;
+      index: number;
+      total: number;
+      audioBase64: string;
+    }
+  | { type: "segment_done"; segment: number }
+  // The segment hit the size cap and was sent as is. The client restarts its
+  // recorder; audio before the next segment_end is dropped, since it would
+  // start a segment without a WebM header.
+  | { type: "segment_full"; segment: number }
+  | { type: "error"; message: string; segment?: number };
+
+// Lines streamed back by /api/live/segment; server.js adds the segment number
+export type LiveSegmentLine =
+  | {
+      type: "transcript";
+      text: string;
+      languageCode: string;
+      detectedLanguage?: DetectedLanguage;
+      languageWarning?: string;
+    }
+  | { type: "translation"; text: string; warning?: string }
+  | { type: "audio"; index: number; total: number; audioBase64: string }
+  | { type: "error"; message: string };
+
+export const liveSocketUrl = () => {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.host}${LIVE_SOCKET_PATH}`;
+};
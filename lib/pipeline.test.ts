@@ -0,0 +1,129 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import {
+  createJob,
+  transitionJob,
+  updateJob,
+  type JobRecord,
+  type JobState,
+} from "./jobStore";
+import { RevisionConflictError, advanceBatchJob, reviseJob } from "./pipeline";
+
+let storeDir: string;
+
+beforeAll(async () => {
+  storeDir = await mkdtemp(path.join(tmpdir(), "jobs-"));
+  process.env.JOB_STORE_DIR = storeDir;
+});
+
+afterAll(async () => {
+  await rm(storeDir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// A batch job as a crash would leave it, parked in `state`
+async function parkedJob(id: string, state: JobState) {
+  await createJob({
+    id,
+    mode: "batch",
+    fileName: "clip.wav",
+    mimeType: "audio/wav",
+    targetLanguage: "hi-IN",
+    speakerConfig: { name: "anushka", gender: "Female", pace: 1 },
+  });
+  const stages: JobState[] = ["transcribing", "translating", "synthesizing"];
+  let job: JobRecord | null = null;
+  for (const next of stages.slice(0, stages.indexOf(state) + 1)) {
+    job = await transitionJob(id, [job?.state ?? "created"], next);
+  }
+  return job!;
+}
+
+describe("advanceBatchJob", () => {
+  it.each<JobState>(["translating", "synthesizing"])(
+    "fails a job left %s past the stale timeout",
+    async (state) => {
+      const job = await parkedJob(`stale-${state}`, state);
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(Date.parse(job.updatedAt) + 31 * 60 * 1000);
+
+      const { job: latest } = await advanceBatchJob(job);
+      expect(latest.state).toBe("failed");
+      expect(latest.error).toMatch(new RegExp(`stalled while ${state}`));
+    },
+  );
+
+  it("leaves a recently updated job alone", async () => {
+    const job = await parkedJob("fresh", "translating");
+    const { job: latest } = await advanceBatchJob(job);
+    expect(latest).toBe(job);
+  });
+
+  it("doesn't fail a job that moved on since it was read", async () => {
+    const job = await parkedJob("moved", "translating");
+    await transitionJob(job.id, ["translating"], "synthesizing");
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.parse(job.updatedAt) + 31 * 60 * 1000);
+
+    const { job: latest } = await advanceBatchJob(job);
+    expect(latest.state).toBe("synthesizing");
+  });
+});
+
+describe("reviseJob", () => {
+  // A finished text job without speech, so revising a translation is local
+  async function finishedJob(id: string) {
+    await createJob({
+      id,
+      mode: "text",
+      fileName: "text.txt",
+      mimeType: "text/plain",
+      targetLanguage: "hi-IN",
+      speakerConfig: { name: "anushka", gender: "Female", pace: 1 },
+      skipSpeech: true,
+    });
+    await transitionJob(id, ["created"], "translating", {
+      originalText: "Hello",
+    });
+    await transitionJob(id, ["translating"], "synthesizing");
+    return (await transitionJob(id, ["synthesizing"], "done", {
+      translatedText: "नमस्ते",
+    }))!;
+  }
+  const revision = { language: "hi-IN", translatedText: "नमस्कार" };
+
+  it("saves a revision of the record it read", async () => {
+    const job = await finishedJob("revise-ok");
+    const revised = await reviseJob(
+      job,
+      revision,
+      new AbortController().signal,
+    );
+    expect(revised.translatedText).toBe("नमस्कार");
+    expect(revised.translations?.[0]).toMatchObject({ edited: true });
+  });
+
+  it("refuses to overwrite a job that changed after it was read", async () => {
+    const job = await finishedJob("revise-stale");
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.parse(job.updatedAt) + 1000);
+    await updateJob(job.id, { translatedText: "बदला हुआ" });
+
+    await expect(
+      reviseJob(job, revision, new AbortController().signal),
+    ).rejects.toBeInstanceOf(RevisionConflictError);
+  });
+});
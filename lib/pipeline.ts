@@ -0,0 +1,812 @@
+import {
+  translateText,
+  textToSpeech,
+  getBatchJobStatus,
+  getDownloadUrls,
+  fetchBatchResult,
+  assignSpeakerVoices,
+  type SpeakerConfig,
+} from "./sarvam";
+import {
+  failJob,
+  getJob,
+  transitionJob,
+  updateJob,
+  type JobRecord,
+  type TranslationOutput,
+} from "./jobStore";
+import { publishJobEvent } from "./jobEvents";
+import {
+  applyPronunciations,
+  maskTerms,
+  restoreTerms,
+  termsFor,
+  type GlossaryTerm,
+} from "./glossary";
+import type { TranslationStyle } from "./translationOptions";
+import { AUTO_DETECT, resolveSourceLanguage } from "./languages";
+import { recordUsage } from "./rateLimit";
+import { CancelledError, runInPool } from "./taskPool";
+import { mergeWavBase64 } from "./wav";
+import {
+  TRANSLATE_MAX_CHARS,
+  TTS_MAX_CHARS,
+  chunkText,
+  joinChunks,
+} from "./textChunker";
+import {
+  formatSpeakerTranscript,
+  offsetSegments,
+  segmentsFromResult,
+  speakerTurns,
+  type TranscriptSegment,
+} from "./segments";
+
+// Pause inserted between TTS chunks and speaker turns when merging audio
+const getChunkSilenceMs = () => Number(process.env.TTS_CHUNK_SILENCE_MS ?? 200);
+// How long a job may sit translating or synthesizing, untouched, before it is
+// treated as orphaned by a crashed or restarted server
+const getStaleJobMs = () =>
+  Number(process.env.STALE_JOB_MINUTES ?? 30) * 60 * 1000;
+
+const SAME_LANGUAGE_WARNING =
+  "Please change language, it is the same as the uploaded audio.";
+
+// Called with (index, total) each time one chunk finishes
+export type ChunkProgress = (index: number, total: number) => void;
+
+export interface TranslateOptions {
+  onProgress?: ChunkProgress;
+  signal?: AbortSignal;
+  // Terms forced or kept as-is in the translation (lib/glossary.ts)
+  glossary?: GlossaryTerm[];
+  // Tone, script and numerals; the provider default when unset
+  style?: TranslationStyle;
+}
+
+// Resolve promises in parallel, reporting each completion as it lands
+async function allWithProgress<T>(
+  tasks: Promise<T>[],
+  onProgress?: ChunkProgress,
+): Promise<T[]> {
+  let finished = 0;
+  return Promise.all(
+    tasks.map((task) =>
+      task.then((value) => {
+        finished++;
+        onProgress?.(finished, tasks.length);
+        return value;
+      }),
+    ),
+  );
+}
+
+// One translate call through the pool, glossary terms masked around it
+async function translateOnce(
+  text: string,
+  targetLanguage: string,
+  sourceLanguage: string,
+  speakerGender: string,
+  { signal, glossary, style }: TranslateOptions,
+): Promise<string> {
+  const masked = maskTerms(text, termsFor(glossary, targetLanguage));
+  const translated = await runInPool(
+    "translate",
+    () =>
+      translateText(
+        masked.text,
+        targetLanguage,
+        sourceLanguage,
+        speakerGender,
+        style,
+      ),
+    signal,
+  );
+  return restoreTerms(translated, masked);
+}
+
+// Translate text of any length, one request per sentence-aligned chunk
+async function translateChunked(
+  text: string,
+  targetLanguage: string,
+  sourceLanguage: string,
+  speakerGender: string,
+  options: TranslateOptions = {},
+): Promise<string> {
+  const chunks = chunkText(text, TRANSLATE_MAX_CHARS).filter((c) => c.trim());
+  const translatedChunks = await allWithProgress(
+    chunks.map((chunk) =>
+      translateOnce(
+        chunk.trim(),
+        targetLanguage,
+        sourceLanguage,
+        speakerGender,
+        options,
+      ),
+    ),
+    options.onProgress,
+  );
+  return joinChunks(chunks, translatedChunks);
+}
+
+// Translate text, chunked to stay under Sarvam Translate's 2000 character limit
+export async function translateTranscript(
+  originalText: string,
+  targetLanguage: string,
+  sourceLanguage: string,
+  speakerGender: string,
+  options: TranslateOptions = {},
+): Promise<{ translatedText: string; warning?: string }> {
+  try {
+    const translatedText = await translateChunked(
+      originalText,
+      targetLanguage,
+      sourceLanguage,
+      speakerGender,
+      options,
+    );
+    return { translatedText };
+  } catch (err: unknown) {
+    const errStr = err instanceof Error ? err.message : String(err);
+    if (errStr.includes("Source and target languages must be different")) {
+      console.log(
+        "Source and target languages are the same, skipping translation.",
+      );
+      return { translatedText: originalText, warning: SAME_LANGUAGE_WARNING };
+    }
+    throw err;
+  }
+}
+
+/**
+ * Translates timed segments so subtitles keep their source timings. Segments
+ * are sent newline-joined in batches under the 2000 character limit; a batch
+ * whose line count doesn't survive translation is retried segment by segment.
+ * Pass a function as speakerGender to translate each speaker with their own
+ * voice's gender; batches never mix genders.
+ */
+export async function translateSegments(
+  segments: TranscriptSegment[],
+  targetLanguage: string,
+  sourceLanguage: string,
+  speakerGender: string | ((segment: TranscriptSegment) => string),
+  options: TranslateOptions = {},
+): Promise<{
+  segments: TranscriptSegment[];
+  translatedText: string;
+  warning?: string;
+}> {
+  const genderOf = (segment: TranscriptSegment) =>
+    typeof speakerGender === "function"
+      ? speakerGender(segment)
+      : speakerGender;
+
+  const batches: TranscriptSegment[][] = [];
+  let batch: TranscriptSegment[] = [];
+  let batchLength = 0;
+  for (const segment of segments) {
+    if (
+      batch.length > 0 &&
+      (batchLength + segment.text.length > TRANSLATE_MAX_CHARS ||
+        genderOf(segment) !== genderOf(batch[0]))
+    ) {
+      batches.push(batch);
+      batch = [];
+      batchLength = 0;
+    }
+    batch.push(segment);
+    batchLength += segment.text.length + 1;
+  }
+  if (batch.length > 0) batches.push(batch);
+
+  const translateOne = (segment: TranscriptSegment) =>
+    translateChunked(
+      segment.text,
+      targetLanguage,
+      sourceLanguage,
+      genderOf(segment),
+      { ...options, onProgress: undefined },
+    );
+
+  const translateBatch = async (items: TranscriptSegment[]) => {
+    // A lone segment may be over the limit (long diarized turns)
+    if (items.length === 1) return [await translateOne(items[0])];
+    const translated = await translateOnce(
+      items.map((s) => s.text.replace(/\n/g, " ")).join("\n"),
+      targetLanguage,
+      sourceLanguage,
+      genderOf(items[0]),
+      options,
+    );
+    const lines = translated.split("\n").filter((l) => l.trim());
+    if (lines.length === items.length) {
+      return lines.map((l) => l.trim());
+    }
+    return Promise.all(items.map(translateOne));
+  };
+
+  try {
+    const translatedBatches = await allWithProgress(
+      batches.map(translateBatch),
+      options.onProgress,
+    );
+    const texts = translatedBatches.flat();
+    const translatedSegments = segments.map((s, i) => ({
+      ...s,
+      translatedText: texts[i],
+    }));
+    return {
+      segments: translatedSegments,
+      translatedText: texts.join(" "),
+    };
+  } catch (err: unknown) {
+    const errStr = err instanceof Error ? err.message : String(err);
+    if (errStr.includes("Source and target languages must be different")) {
+      console.log(
+        "Source and target languages are the same, skipping translation.",
+      );
+      return {
+        segments: segments.map((s) => ({ ...s, translatedText: s.text })),
+        translatedText: segments.map((s) => s.text).join(" "),
+        warning: SAME_LANGUAGE_WARNING,
+      };
+    }
+    throw err;
+  }
+}
+
+// Bulbul v3 supports up to 500 characters per call
+export function splitForTts(text: string): string[] {
+  return chunkText(text, TTS_MAX_CHARS)
+    .map((c) => c.trim())
+    .filter(Boolean);
+}
+
+// Synthesize each TTS chunk and merge them into one WAV
+export async function synthesizeSpeech(
+  text: string,
+  targetLanguage: string,
+  speakerConfig: SpeakerConfig,
+  onProgress?: ChunkProgress,
+  signal?: AbortSignal,
+): Promise<string> {
+  return synthesizeTurns(
+    [{ text, speakerConfig }],
+    targetLanguage,
+    onProgress,
+    signal,
+  );
+}
+
+// Synthesize each turn in its own voice, merged in turn order
+export async function synthesizeTurns(
+  turns: { text: string; speakerConfig: SpeakerConfig }[],
+  targetLanguage: string,
+  onProgress?: ChunkProgress,
+  signal?: AbortSignal,
+): Promise<string> {
+  const audioParts = await allWithProgress(
+    turns.flatMap(({ text, speakerConfig }) =>
+      splitForTts(text).map((chunk) =>
+        runInPool(
+          "tts",
+          () => textToSpeech(chunk, targetLanguage, speakerConfig),
+          signal,
+        ),
+      ),
+    ),
+    onProgress,
+  );
+
+  if (audioParts.length === 0) {
+    throw new Error("Text-to-Speech failed. Result was empty.");
+  }
+  return mergeWavBase64(audioParts, { silenceMs: getChunkSilenceMs() });
+}
+
+const voiceFor = (job: JobRecord, speaker?: string) =>
+  (speaker && job.speakerVoices?.[speaker]) || job.speakerConfig;
+
+// Translate the job's transcript into one target language
+async function translateInto(
+  job: JobRecord,
+  language: string,
+  signal: AbortSignal,
+): Promise<TranslationOutput> {
+  const onProgress: ChunkProgress = (index, total) =>
+    publishJobEvent(job.id, {
+      type: "translation_chunk",
+      language,
+      index,
+      total,
+    });
+  const sourceLanguage = job.sourceLanguage || AUTO_DETECT;
+  const options = {
+    onProgress,
+    signal,
+    glossary: job.glossary?.terms,
+    style: job.translationOptions,
+  };
+  // An explicit speaker gender wins over the one implied by the voice
+  const genderFor = (speaker?: string) =>
+    job.translationOptions?.speakerGender ?? voiceFor(job, speaker).gender;
+  await recordUsage(
+    job.usageKey,
+    "translateChars",
+    job.segments?.length
+      ? job.segments.reduce((sum, s) => sum + s.text.length, 0)
+      : (job.originalText ?? "").length,
+  );
+
+  // Translate per timed segment when we have them, so subtitles line up
+  const translated = job.segments?.length
+    ? await translateSegments(
+        job.segments,
+        language,
+        sourceLanguage,
+        (segment) => genderFor(segment.speaker),
+        options,
+      )
+    : {
+        ...(await translateTranscript(
+          job.originalText ?? "",
+          language,
+          sourceLanguage,
+          genderFor(),
+          options,
+        )),
+        segments: undefined,
+      };
+  const { warning, segments } = translated;
+  const diarized = Boolean(job.speakerVoices && segments?.length);
+  const translatedText =
+    diarized && segments
+      ? formatSpeakerTranscript(segments, "translatedText")
+      : translated.translatedText;
+  if (!translatedText) {
+    throw new Error(`Translation to ${language} failed. Result was empty.`);
+  }
+
+  return {
+    language,
+    translatedText,
+    ...(segments ? { segments } : {}),
+    ...(warning ? { warning } : {}),
+  };
+}
+
+// Speak one language's translation and merge it into a single WAV
+async function synthesizeOutput(
+  job: JobRecord,
+  output: TranslationOutput,
+  signal: AbortSignal,
+): Promise<string> {
+  const { language, segments } = output;
+  const onProgress: ChunkProgress = (index, total) =>
+    publishJobEvent(job.id, { type: "tts_chunk", language, index, total });
+  await recordUsage(job.usageKey, "ttsChars", output.translatedText.length);
+  // Glossary terms with a pronunciation are spoken as spelled there
+  const terms = termsFor(job.glossary?.terms, language);
+  const spoken = (text: string) => applyPronunciations(text, terms);
+
+  // Diarized jobs speak each turn in that speaker's voice, in order
+  if (job.speakerVoices && segments?.length) {
+    return synthesizeTurns(
+      speakerTurns(segments).map((turn) => ({
+        text: spoken(
+          turn.segments.map((s) => s.translatedText ?? s.text).join(" "),
+        ),
+        speakerConfig: voiceFor(job, turn.speaker),
+      })),
+      language,
+      onProgress,
+      signal,
+    );
+  }
+  return synthesizeSpeech(
+    spoken(output.translatedText),
+    language,
+    job.speakerConfig,
+    onProgress,
+    signal,
+  );
+}
+
+// Jobs translating or synthesizing in this process, so they can be cancelled
+const globalForRuns = globalThis as unknown as {
+  runningJobs?: Map<string, AbortController>;
+};
+const runningJobs = () => (globalForRuns.runningJobs ??= new Map());
+
+/**
+ * Cancels a job that hasn't finished: chunks still queued for translation or
+ * TTS are dropped, and the job is marked failed. Requests already in flight
+ * finish, but their results are discarded. Returns the latest record.
+ */
+export async function cancelJob(
+  id: string,
+  reason = "Cancelled by client",
+): Promise<JobRecord | null> {
+  runningJobs().get(id)?.abort(reason);
+  await failJob(id, reason);
+  return getJob(id);
+}
+
+/**
+ * Runs translation and TTS for a job that has just been claimed into the
+ * "translating" state, recording each transition. STT output is shared and
+ * each target language fans out in parallel through the shared task pools;
+ * the first target also fills the job's top-level translatedText/audioBase64.
+ * Jobs with skipSpeech stop after translation, without audio. Marks the job
+ * failed and rethrows if any language errors, or if `signal` (or cancelJob)
+ * aborts it.
+ */
+export async function translateAndSynthesize(
+  job: JobRecord,
+  signal?: AbortSignal,
+): Promise<JobRecord> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort("Cancelled by client");
+  signal?.addEventListener("abort", onAbort, { once: true });
+  runningJobs().set(job.id, controller);
+  const checkCancelled = () => {
+    if (controller.signal.aborted) {
+      throw new CancelledError(String(controller.signal.reason));
+    }
+  };
+
+  try {
+    checkCancelled();
+    if (!job.originalText) {
+      throw new Error("Transcript not found for job.");
+    }
+    const languages = job.targetLanguages?.length
+      ? job.targetLanguages
+      : [job.targetLanguage];
+
+    const translations = await Promise.all(
+      languages.map((language) =>
+        translateInto(job, language, controller.signal),
+      ),
+    );
+    checkCancelled();
+    const [primary] = translations;
+
+    const synthesizing = await transitionJob(
+      job.id,
+      ["translating"],
+      "synthesizing",
+      {
+        translatedText: primary.translatedText,
+        warning: primary.warning,
+        ...(primary.segments ? { segments: primary.segments } : {}),
+        translations,
+      },
+    );
+    if (!synthesizing) {
+      throw new Error(`Job ${job.id} left the translating state unexpectedly.`);
+    }
+
+    const audio = job.skipSpeech
+      ? []
+      : await Promise.all(
+          translations.map((output) =>
+            synthesizeOutput(job, output, controller.signal),
+          ),
+        );
+    checkCancelled();
+    if (!job.skipSpeech) publishJobEvent(job.id, { type: "merged" });
+
+    const done = await transitionJob(job.id, ["synthesizing"], "done", {
+      audioBase64: audio[0],
+      translations: translations.map((output, i) => ({
+        ...output,
+        audioBase64: audio[i],
+      })),
+    });
+    if (!done) {
+      throw new Error(
+        `Job ${job.id} left the synthesizing state unexpectedly.`,
+      );
+    }
+    return done;
+  } catch (err: unknown) {
+    // Drop this job's chunks still waiting in the pools
+    controller.abort("Cancelled after another chunk failed");
+    await failJob(job.id, err instanceof Error ? err.message : String(err));
+    throw err;
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    runningJobs().delete(job.id);
+  }
+}
+
+// A hand correction to a finished job: its transcript, or one translation
+export type JobRevision =
+  { originalText: string } | { language: string; translatedText: string };
+
+// Thrown when a job is already being revised, or changed while revising
+export class RevisionConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RevisionConflictError";
+  }
+}
+
+// Jobs being revised in this process, so a second revision is turned away
+const globalForRevisions = globalThis as unknown as {
+  revisingJobs?: Set<string>;
+};
+const revisingJobs = () => (globalForRevisions.revisingJobs ??= new Set());
+
+/**
+ * Re-runs the tail of a finished job after the caller corrects its text,
+ * reusing the job's voices, glossary and translation options. A corrected
+ * transcript is translated and spoken again in every target; a corrected
+ * translation is only spoken again. Edited text no longer lines up with the
+ * STT timestamps, so the segments it replaces are dropped. Throws
+ * RevisionConflictError if the job is already being revised, or if it
+ * changed after `job` was read, rather than overwriting the newer record.
+ */
+export async function reviseJob(
+  job: JobRecord,
+  revision: JobRevision,
+  signal: AbortSignal,
+): Promise<JobRecord> {
+  if (revisingJobs().has(job.id)) {
+    throw new RevisionConflictError(`Job ${job.id} is already being revised`);
+  }
+  revisingJobs().add(job.id);
+  try {
+    return await applyRevision(job, revision, signal);
+  } finally {
+    revisingJobs().delete(job.id);
+  }
+}
+
+async function applyRevision(
+  job: JobRecord,
+  revision: JobRevision,
+  signal: AbortSignal,
+): Promise<JobRecord> {
+  let patch;
+  if ("originalText" in revision) {
+    const revised: JobRecord = {
+      ...job,
+      originalText: revision.originalText,
+      segments: undefined,
+    };
+    const languages = job.targetLanguages?.length
+      ? job.targetLanguages
+      : [job.targetLanguage];
+    const translations = await Promise.all(
+      languages.map((language) => translateInto(revised, language, signal)),
+    );
+    const audio = job.skipSpeech
+      ? []
+      : await Promise.all(
+          translations.map((output) =>
+            synthesizeOutput(revised, output, signal),
+          ),
+        );
+    const [primary] = translations;
+    patch = {
+      originalText: revision.originalText,
+      segments: undefined,
+      translatedText: primary.translatedText,
+      warning: primary.warning,
+      audioBase64: audio[0],
+      translations: translations.map((output, i) => ({
+        ...output,
+        audioBase64: audio[i],
+      })),
+    };
+  } else {
+    const { language, translatedText } = revision;
+    const outputs = job.translations ?? [
+      {
+        language: job.targetLanguage,
+        translatedText: job.translatedText ?? "",
+      },
+    ];
+    if (!outputs.some((o) => o.language === language)) {
+      throw new Error(`Job has no ${language} translation`);
+    }
+    const output: TranslationOutput = {
+      language,
+      translatedText,
+      edited: true,
+    };
+    const audioBase64 = job.skipSpeech
+      ? undefined
+      : await synthesizeOutput(job, output, signal);
+    patch = {
+      translations: outputs.map((o) =>
+        o.language === language ? { ...output, audioBase64 } : o,
+      ),
+      ...(language === job.targetLanguage
+        ? { translatedText, audioBase64, warning: undefined }
+        : {}),
+    };
+  }
+
+  // Only if nothing else revised or moved the job in the meantime
+  const updated = await updateJob(job.id, patch, ["done"], job.updatedAt);
+  if (!updated) {
+    throw new RevisionConflictError(
+      `Job ${job.id} changed while it was being revised`,
+    );
+  }
+  return updated;
+}
+
+/**
+ * Moves a batch job forward by one poll: checks the upstream STT job and,
+ * once it has completed, claims the job and runs translation and TTS.
+ * A job of any mode left translating or synthesizing past STALE_JOB_MINUTES,
+ * and not running in this process, is failed so polling clients stop.
+ * Returns the latest record plus the provider's own job state when known.
+ */
+export async function advanceBatchJob(
+  job: JobRecord,
+): Promise<{ job: JobRecord; providerState?: string }> {
+  if (
+    (job.state === "translating" || job.state === "synthesizing") &&
+    !runningJobs().has(job.id) &&
+    Date.now() - Date.parse(job.updatedAt) > getStaleJobMs()
+  ) {
+    // Only if nothing moved it since it was read
+    const failed = await transitionJob(job.id, [job.state], "failed", {
+      error: `Job stalled while ${job.state}, it was interrupted`,
+    });
+    return { job: failed ?? (await getJob(job.id)) ?? job };
+  }
+
+  // Only a job still waiting on batch STT needs to talk to the provider
+  if (job.mode !== "batch" || job.state !== "transcribing") {
+    return { job };
+  }
+
+  const status = await getBatchJobStatus(job.id);
+
+  if (status.job_state === "Failed") {
+    await failJob(job.id, status.error || "Batch job failed");
+    return { job: (await getJob(job.id)) ?? job };
+  }
+
+  if (status.job_state !== "Completed") {
+    publishJobEvent(job.id, {
+      type: "stt_running",
+      providerState: status.job_state,
+    });
+    return { job, providerState: status.job_state };
+  }
+
+  const fileName = job.fileName;
+
+  // 1. Extract output file names from job status
+  // The status response contains job_details with successful file info
+  let outputFileNames: string[] = [];
+
+  // Try to extract output file names from job_details
+  // Structure: job_details[].outputs[].file_name (e.g. "0.json")
+  if (status.job_details && Array.isArray(status.job_details)) {
+    for (const detail of status.job_details) {
+      if (
+        detail.state === "Success" &&
+        detail.outputs &&
+        Array.isArray(detail.outputs)
+      ) {
+        for (const output of detail.outputs) {
+          if (output.file_name) {
+            outputFileNames.push(output.file_name);
+          }
+        }
+      }
+    }
+  }
+
+  // If we couldn't get file names from job_details, try common patterns
+  if (outputFileNames.length === 0) {
+    // Try the original file name with .json extension
+    const baseName = fileName.replace(/\.[^.]+$/, "");
+    outputFileNames = [baseName + ".json", fileName];
+  }
+
+  console.log("Attempting to download files:", outputFileNames);
+
+  // Try each possible file name until one works
+  let urls: string[] = [];
+  for (const tryFileName of outputFileNames) {
+    try {
+      urls = await getDownloadUrls(job.id, tryFileName);
+      if (urls.length > 0) break;
+    } catch (downloadErr) {
+      console.error(
+        `File name '${tryFileName}' failed:`,
+        downloadErr instanceof Error
+          ? downloadErr.message
+          : String(downloadErr),
+      );
+    }
+  }
+
+  if (urls.length === 0) {
+    throw new Error(
+      "Job completed but no download URLs found. Status: " +
+        JSON.stringify(status),
+    );
+  }
+
+  // 2. Fetch the actual transcript from the first successful file
+  const resultData = await fetchBatchResult(urls[0]);
+  console.log("Sarvam Result JSON:", JSON.stringify(resultData));
+
+  // The structure is usually { transcript: "..." } or similar
+  const originalText =
+    resultData.transcript ||
+    resultData.text ||
+    resultData.data?.text ||
+    resultData.result?.text ||
+    (Array.isArray(resultData)
+      ? // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        resultData.map((f: any) => f.transcript || f.text || "").join(" ")
+      : "");
+
+  const language = resolveSourceLanguage(job.requestedSourceLanguage, {
+    languageCode: resultData.language_code,
+    languageProbability: resultData.language_probability,
+  });
+  const segments = offsetSegments(
+    segmentsFromResult(resultData),
+    job.audioOffsetSeconds ?? 0,
+  );
+
+  if (!originalText || originalText.trim() === "") {
+    throw new Error("Transcript not found in job results.");
+  }
+
+  // Diarized results get a speaker-labelled transcript and a voice per speaker
+  const speakers = [
+    ...new Set(segments.flatMap((s) => (s.speaker ? [s.speaker] : []))),
+  ];
+  const diarized = job.diarization && speakers.length > 0;
+
+  // Claim the job so concurrent polls don't translate it twice
+  const claimed = await transitionJob(job.id, ["transcribing"], "translating", {
+    originalText: diarized
+      ? formatSpeakerTranscript(segments, "text")
+      : originalText,
+    sourceLanguage: language.sourceLanguage,
+    detectedLanguage: language.detectedLanguage,
+    languageWarning: language.warning,
+    segments,
+    ...(diarized
+      ? { speakerVoices: assignSpeakerVoices(speakers, job.speakerConfig) }
+      : {}),
+  });
+  if (!claimed) {
+    return { job: (await getJob(job.id)) ?? job };
+  }
+  await recordUsage(
+    claimed.usageKey,
+    "audioMinutes",
+    (claimed.durationSeconds ?? segments.at(-1)?.end ?? 0) / 60,
+  );
+
+  if (claimed.speakerVoices) {
+    console.log(
+      "[Batch] Speaker voices:",
+      Object.entries(claimed.speakerVoices)
+        .map(([id, v]) => `${id}=${v.name} (${v.gender})`)
+        .join(", "),
+    );
+  } else {
+    console.log(
+      `[Batch] Speaker: ${claimed.speakerConfig.name} (${claimed.speakerConfig.gender}), Pace: ${claimed.speakerConfig.pace}`,
+    );
+  }
+
+  // 3. Translate (chunked for the 2000 char limit), then TTS
+  return { job: await translateAndSynthesize(claimed) };
+}
@@ -0,0 +1,25 @@
+import { mockProvider } from "./mock";
+import { sarvamProvider } from "./sarvam";
+import type { SpeechProvider } from "./types";
+
+export type * from "./types";
+
+const providers: Record<string, SpeechProvider> = {
+  sarvam: sarvamProvider,
+  mock: mockProvider,
+};
+
+/**
+ * Returns the provider selected by SPEECH_PROVIDER ("sarvam" by default).
+ * Use "mock" to run the whole pipeline offline without a subscription key.
+ */
+export function getProvider(): SpeechProvider {
+  const name = (process.env.SPEECH_PROVIDER || "sarvam").toLowerCase();
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(
+      `Unknown SPEECH_PROVIDER "${name}". Expected one of: ${Object.keys(providers).join(", ")}`,
+    );
+  }
+  return provider;
+}
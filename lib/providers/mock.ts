@@ -0,0 +1,304 @@
+import { createHash, randomUUID } from "crypto";
+import { isDefaultStyle, type TranslationStyle } from "../translationOptions";
+import type {
+  BatchJobInfo,
+  BatchJobOptions,
+  SpeakerConfig,
+  SpeechProvider,
+  SpeechToTextResult,
+  TimedWord,
+  UploadedBlock,
+} from "./types";
+
+/**
+ * Deterministic offline provider for dev and CI. Same input always yields the
+ * same output, and no network or subscription key is needed.
+ *
+ * Batch jobs live in process memory and complete MOCK_BATCH_DELAY_MS after
+ * they are started. Upload/download "URLs" use the mock:// scheme and are
+ * only understood by this provider.
+ */
+
+const MS_PER_CHAR = 60;
+const MAX_TTS_SECONDS = 30;
+const SECONDS_PER_WORD = 0.4;
+
+interface MockBatchJob {
+  fileName: string;
+  options: BatchJobOptions;
+  uploaded?: Buffer;
+  blocks: Map<string, Buffer>;
+  startedAt?: number;
+}
+
+// Survive module reloads in `next dev`
+const globalForMock = globalThis as unknown as {
+  mockBatchJobs?: Map<string, MockBatchJob>;
+};
+const jobs = (globalForMock.mockBatchJobs ??= new Map<string, MockBatchJob>());
+
+const getDelayMs = () => Number(process.env.MOCK_BATCH_DELAY_MS ?? 3000);
+const getSourceLanguage = () => process.env.MOCK_STT_LANGUAGE || "en-IN";
+
+const digest = (input: Buffer | string) =>
+  createHash("sha256").update(input).digest("hex");
+
+// Deterministic language-ID confidence between 0.5 and 1
+const languageProbability = (audio: Buffer) =>
+  0.5 + parseInt(digest(audio).slice(0, 2), 16) / 510;
+
+function transcribe(buffer: Buffer): string {
+  return `Mock transcript ${digest(buffer).slice(0, 8)}. This voice note was transcribed offline by the mock provider.`;
+}
+
+// Evenly spaced word timings in Sarvam's parallel-array format
+function mockTimestamps(text: string) {
+  const words = text.split(/\s+/).filter(Boolean);
+  return {
+    words,
+    start_time_seconds: words.map((_, i) => i * SECONDS_PER_WORD),
+    end_time_seconds: words.map((_, i) => (i + 0.9) * SECONDS_PER_WORD),
+  };
+}
+
+function toTimedWords(text: string): TimedWord[] {
+  const ts = mockTimestamps(text);
+  return ts.words.map((word, i) => ({
+    text: word,
+    start: ts.start_time_seconds[i],
+    end: ts.end_time_seconds[i],
+  }));
+}
+
+// Alternate speakers sentence by sentence, in Sarvam's diarized format
+function mockDiarizedTranscript(text: string, numSpeakers = 2) {
+  const ts = mockTimestamps(text);
+  const entries: {
+    transcript: string;
+    start_time_seconds: number;
+    end_time_seconds: number;
+    speaker_id: string;
+  }[] = [];
+  let startIndex = 0;
+  ts.words.forEach((word, i) => {
+    if (/[.?!]$/.test(word) || i === ts.words.length - 1) {
+      entries.push({
+        transcript: ts.words.slice(startIndex, i + 1).join(" "),
+        start_time_seconds: ts.start_time_seconds[startIndex],
+        end_time_seconds: ts.end_time_seconds[i],
+        speaker_id: `SPEAKER_${String(entries.length % numSpeakers).padStart(2, "0")}`,
+      });
+      startIndex = i + 1;
+    }
+  });
+  return { entries };
+}
+
+/**
+ * Builds a 16-bit mono PCM WAV with a standard 44-byte header. The tone's
+ * pitch is derived from the text so different chunks are audibly distinct,
+ * then shifted by the voice's pitch setting.
+ */
+function synthesizeWav(text: string, config: SpeakerConfig): Buffer {
+  const sampleRate = config.sampleRate ?? 8000;
+  const seconds = Math.min(
+    MAX_TTS_SECONDS,
+    Math.max(0.5, (text.length * MS_PER_CHAR) / 1000 / (config.pace || 1)),
+  );
+  const numSamples = Math.round(seconds * sampleRate);
+  const dataLength = numSamples * 2;
+  const frequency =
+    (220 + (parseInt(digest(text).slice(0, 4), 16) % 440)) *
+    2 ** (config.pitch ?? 0);
+  const amplitude = Math.min(0.9, 0.2 * (config.loudness ?? 1));
+
+  const wav = Buffer.alloc(44 + dataLength);
+  wav.write("RIFF", 0, "ascii");
+  wav.writeUInt32LE(36 + dataLength, 4);
+  wav.write("WAVE", 8, "ascii");
+  wav.write("fmt ", 12, "ascii");
+  wav.writeUInt32LE(16, 16); // fmt chunk size
+  wav.writeUInt16LE(1, 20); // PCM
+  wav.writeUInt16LE(1, 22); // mono
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * 2, 28); // byte rate
+  wav.writeUInt16LE(2, 32); // block align
+  wav.writeUInt16LE(16, 34); // bits per sample
+  wav.write("data", 36, "ascii");
+  wav.writeUInt32LE(dataLength, 40);
+
+  for (let i = 0; i < numSamples; i++) {
+    const sample = Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+    wav.writeInt16LE(Math.round(sample * amplitude * 32767), 44 + i * 2);
+  }
+  return wav;
+}
+
+function getJob(jobId: string): MockBatchJob {
+  const job = jobs.get(jobId);
+  if (!job) {
+    throw new Error(`Mock batch job not found: ${jobId}`);
+  }
+  return job;
+}
+
+function parseMockUrl(url: string): { jobId: string; fileName: string } {
+  const match = url.match(/^mock:\/\/(?:uploads|downloads)\/([^/]+)\/([^?]+)/);
+  if (!match) {
+    throw new Error(`Not a mock storage URL: ${url}`);
+  }
+  return { jobId: match[1], fileName: decodeURIComponent(match[2]) };
+}
+
+export const mockProvider: SpeechProvider = {
+  name: "mock",
+
+  // Always "hears" MOCK_STT_LANGUAGE, so a different pick shows a mismatch
+  async speechToText(audioBuffer: Buffer): Promise<SpeechToTextResult> {
+    const text = transcribe(audioBuffer);
+    return {
+      text,
+      languageCode: getSourceLanguage(),
+      languageProbability: languageProbability(audioBuffer),
+      words: toTimedWords(text),
+    };
+  },
+
+  async translateText(
+    text: string,
+    targetLanguage: string,
+    sourceLanguage: string,
+    _speakerGender: string,
+    style: TranslationStyle,
+  ): Promise<string> {
+    if (targetLanguage === sourceLanguage) {
+      // Mirror the upstream error so same-language handling is exercised
+      throw new Error(
+        "Translation failed: 400 Bad Request - Source and target languages must be different",
+      );
+    }
+    // Line by line, like the real model, so segment batching round-trips.
+    // Non-default styles show up in the tag so they can be checked end to end
+    const tag = isDefaultStyle(style)
+      ? targetLanguage
+      : [targetLanguage, style.tone, style.script, style.numerals].join("/");
+    return text
+      .split("\n")
+      .map((line) => `[${tag}] ${line}`)
+      .join("\n");
+  },
+
+  async textToSpeech(
+    text: string,
+    _targetLanguage: string,
+    speakerConfig: SpeakerConfig,
+  ): Promise<string> {
+    return synthesizeWav(text, speakerConfig).toString("base64");
+  },
+
+  batch: {
+    async initiateBatchJob(
+      fileName: string,
+      options: BatchJobOptions = {},
+    ): Promise<BatchJobInfo> {
+      const jobId = `mock-${randomUUID()}`;
+      jobs.set(jobId, { fileName, options, blocks: new Map() });
+      return { job_id: jobId, blob_container_url: `mock://uploads/${jobId}` };
+    },
+
+    async getUploadUrl(jobId: string, fileName: string): Promise<string> {
+      getJob(jobId);
+      return `mock://uploads/${jobId}/${encodeURIComponent(fileName)}?sig=mock`;
+    },
+
+    async uploadFile(uploadUrl: string, buffer: Buffer): Promise<void> {
+      getJob(parseMockUrl(uploadUrl).jobId).uploaded = buffer;
+    },
+
+    async uploadBlock(
+      uploadUrl: string,
+      blockId: string,
+      chunk: Buffer,
+      md5?: string,
+    ): Promise<void> {
+      // Same check Azure does on Content-MD5
+      if (md5 && createHash("md5").update(chunk).digest("base64") !== md5) {
+        throw new Error(
+          "Failed to upload chunk to Azure: Md5Mismatch for block " + blockId,
+        );
+      }
+      getJob(parseMockUrl(uploadUrl).jobId).blocks.set(blockId, chunk);
+    },
+
+    async listUncommittedBlocks(uploadUrl: string): Promise<UploadedBlock[]> {
+      const job = getJob(parseMockUrl(uploadUrl).jobId);
+      return [...job.blocks].map(([id, chunk]) => ({ id, size: chunk.length }));
+    },
+
+    async commitBlocks(uploadUrl: string, blockIds: string[]): Promise<void> {
+      const job = getJob(parseMockUrl(uploadUrl).jobId);
+      const missing = blockIds.filter((id) => !job.blocks.has(id));
+      if (missing.length > 0) {
+        throw new Error(`Cannot commit, missing blocks: ${missing.join(", ")}`);
+      }
+      job.uploaded = Buffer.concat(blockIds.map((id) => job.blocks.get(id)!));
+      job.blocks.clear();
+    },
+
+    async startBatchJob(jobId: string): Promise<void> {
+      const job = getJob(jobId);
+      if (!job.uploaded) {
+        throw new Error("Failed to start batch job: no file uploaded");
+      }
+      job.startedAt = Date.now();
+    },
+
+    async getBatchJobStatus(jobId: string) {
+      const job = getJob(jobId);
+      if (!job.startedAt) {
+        return { job_id: jobId, job_state: "Accepted" };
+      }
+      if (Date.now() - job.startedAt < getDelayMs()) {
+        return { job_id: jobId, job_state: "Running" };
+      }
+      const outputName = job.fileName.replace(/\.[^.]+$/, "") + ".json";
+      return {
+        job_id: jobId,
+        job_state: "Completed",
+        job_details: [
+          {
+            state: "Success",
+            inputs: [{ file_name: job.fileName }],
+            outputs: [{ file_name: outputName }],
+          },
+        ],
+      };
+    },
+
+    async getDownloadUrls(jobId: string, fileName: string): Promise<string[]> {
+      getJob(jobId);
+      return [`mock://downloads/${jobId}/${encodeURIComponent(fileName)}`];
+    },
+
+    async fetchBatchResult(downloadUrl: string) {
+      const job = getJob(parseMockUrl(downloadUrl).jobId);
+      const transcript = transcribe(job.uploaded ?? Buffer.alloc(0));
+      return {
+        transcript,
+        language_code: getSourceLanguage(),
+        language_probability: languageProbability(
+          job.uploaded ?? Buffer.alloc(0),
+        ),
+        timestamps: mockTimestamps(transcript),
+        ...(job.options.diarization
+          ? {
+              diarized_transcript: mockDiarizedTranscript(
+                transcript,
+                job.options.numSpeakers,
+              ),
+            }
+          : {}),
+      };
+    },
+  },
+};
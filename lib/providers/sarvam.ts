@@ -0,0 +1,469 @@
+import { withExtension } from "../audioFormats";
+import { getCredential } from "../credentials";
+import { parseTimestamps } from "../segments";
+import { AUTO_DETECT } from "../languages";
+import { TTS_MODEL, supportsPitchAndLoudness } from "../voices";
+import {
+  UpstreamError,
+  callUpstream,
+  parseRetryAfter,
+  type CallOptions,
+  type UpstreamService,
+} from "../upstream";
+import {
+  isDefaultStyle,
+  type OutputScript,
+  type TranslationStyle,
+} from "../translationOptions";
+import type {
+  BatchJobInfo,
+  BatchJobOptions,
+  SpeakerConfig,
+  SpeechProvider,
+  SpeechToTextResult,
+  UploadedBlock,
+} from "./types";
+
+const getBaseUrl = () =>
+  process.env.SARVAM_API_BASE_URL || "https://api.sarvam.ai";
+
+const getAuthHeaders = (isMultipart = false) => {
+  const headers: HeadersInit = {
+    "api-subscription-key": getCredential("SARVAM_API_KEY"),
+  };
+  if (!isMultipart) {
+    headers["Content-Type"] = "application/json";
+  }
+  return headers;
+};
+
+/**
+ * fetch through callUpstream (timeout, retries, circuit breaker). Non-OK
+ * responses throw UpstreamError with the status and the response body.
+ */
+async function upstreamFetch(
+  service: UpstreamService,
+  url: string,
+  init: RequestInit,
+  failure: string,
+  options?: CallOptions,
+): Promise<Response> {
+  return callUpstream(
+    service,
+    async (signal) => {
+      const response = await fetch(url, { ...init, signal });
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new UpstreamError(
+          `${failure}: ${response.status} ${response.statusText} - ${errorText}`,
+          service,
+          response.status,
+          parseRetryAfter(response.headers.get("retry-after")),
+        );
+      }
+      return response;
+    },
+    options,
+  );
+}
+
+// 1. Speech to Text
+async function speechToText(
+  audioBuffer: Buffer,
+  mimeType: string,
+  languageCode?: string,
+): Promise<SpeechToTextResult> {
+  const url = `${getBaseUrl()}/speech-to-text`;
+
+  const formData = new FormData();
+  const blob = new Blob([new Uint8Array(audioBuffer)], { type: mimeType });
+  formData.append("file", blob, withExtension("audio", mimeType));
+  formData.append("model", "saaras:v3");
+  formData.append("with_timestamps", "true");
+  // "unknown" asks Saaras to identify the language
+  formData.append("language_code", languageCode ?? "unknown");
+
+  const response = await upstreamFetch(
+    "stt",
+    url,
+    { method: "POST", headers: getAuthHeaders(true), body: formData },
+    "Speech-to-Text failed",
+  );
+
+  const data = await response.json();
+  // Assume generic structure, trying common fields
+  const text =
+    data.transcript || data.text || data.data?.text || data.result?.text || "";
+  return {
+    text,
+    languageCode: data.language_code || languageCode || AUTO_DETECT,
+    ...(typeof data.language_probability === "number"
+      ? { languageProbability: data.language_probability }
+      : {}),
+    words: parseTimestamps(data),
+  };
+}
+
+// Sarvam's output_script values; the native script is the default (null)
+const OUTPUT_SCRIPTS: Record<OutputScript, string | null> = {
+  native: null,
+  roman: "roman",
+  "fully-native": "fully-native",
+  "spoken-native": "spoken-form-in-native",
+};
+
+// 2. Translate Text
+async function translateText(
+  text: string,
+  targetLanguage: string,
+  sourceLanguage: string,
+  speakerGender: string,
+  style: TranslationStyle,
+): Promise<string> {
+  const url = `${getBaseUrl()}/translate`;
+
+  // sarvam-translate only does formal, native-script output from a known
+  // language; Mayura covers the other tones, scripts and numerals, and
+  // identifies the source itself for "auto"
+  const plain = isDefaultStyle(style) && sourceLanguage !== AUTO_DETECT;
+  const payload = {
+    input: text,
+    source_language_code: sourceLanguage, // Using actual detected language
+    target_language_code: targetLanguage,
+    speaker_gender: speakerGender,
+    mode: style.tone,
+    model: plain ? "sarvam-translate:v1" : "mayura:v1",
+    output_script: OUTPUT_SCRIPTS[style.script],
+    numerals_format: style.numerals,
+  };
+
+  const response = await upstreamFetch(
+    "translate",
+    url,
+    {
+      method: "POST",
+      headers: getAuthHeaders(false),
+      body: JSON.stringify(payload),
+    },
+    "Translation failed",
+  );
+
+  const data = await response.json();
+  return data.translated_text || data.text || data.data?.translated_text || "";
+}
+
+// 3. Text to Speech (Bulbul v3)
+async function textToSpeech(
+  text: string,
+  targetLanguage: string,
+  config: SpeakerConfig,
+): Promise<string> {
+  const url = `${getBaseUrl()}/text-to-speech`;
+
+  const payload = {
+    inputs: [text],
+    target_language_code: targetLanguage,
+    speaker: config.name,
+    pace: config.pace,
+    ...(supportsPitchAndLoudness(TTS_MODEL)
+      ? {
+          ...(config.pitch ? { pitch: config.pitch } : {}),
+          ...(config.loudness !== undefined && config.loudness !== 1
+            ? { loudness: config.loudness }
+            : {}),
+        }
+      : {}),
+    speech_sample_rate: config.sampleRate ?? 8000,
+    enable_preprocessing: true,
+    model: TTS_MODEL,
+  };
+
+  const response = await upstreamFetch(
+    "tts",
+    url,
+    {
+      method: "POST",
+      headers: getAuthHeaders(false),
+      body: JSON.stringify(payload),
+    },
+    "Text-to-Speech failed",
+  );
+
+  const data = await response.json();
+
+  // Bulbul usually returns arrays of base64 "audios"
+  if (data.audios && data.audios.length > 0) {
+    return data.audios[0];
+  }
+  return data.audio || data.base64 || "";
+}
+
+// 4. Batch Speech to Text (for long audio > 30s)
+async function initiateBatchJob(
+  fileName: string,
+  options: BatchJobOptions = {},
+): Promise<BatchJobInfo> {
+  const url = `${getBaseUrl()}/speech-to-text/job/v1`;
+  // Not idempotent: a retried request could create a second job
+  const response = await upstreamFetch(
+    "batch",
+    url,
+    {
+      method: "POST",
+      headers: getAuthHeaders(false),
+      body: JSON.stringify({
+        job_parameters: {
+          model: "saaras:v3",
+          files: [fileName],
+          config: {
+            language_code: options.languageCode ?? "unknown",
+            mode: "transcribe",
+            with_timestamps: true,
+            ...(options.diarization
+              ? {
+                  with_diarization: true,
+                  ...(options.numSpeakers
+                    ? { num_speakers: options.numSpeakers }
+                    : {}),
+                }
+              : {}),
+          },
+        },
+      }),
+    },
+    "Failed to initiate batch job",
+    { idempotent: false },
+  );
+
+  const data = await response.json();
+  console.log("Sarvam Initiate Job Response:", JSON.stringify(data));
+  return data;
+}
+
+async function getUploadUrl(jobId: string, fileName: string): Promise<string> {
+  const url = `${getBaseUrl()}/speech-to-text/job/v1/upload-files`;
+  const response = await upstreamFetch(
+    "batch",
+    url,
+    {
+      method: "POST",
+      headers: getAuthHeaders(false),
+      body: JSON.stringify({ job_id: jobId, files: [fileName] }),
+    },
+    "Failed to get upload URL",
+  );
+
+  const data = await response.json();
+  console.log("Sarvam Upload Response Data:", JSON.stringify(data));
+
+  // Handle various response formats:
+  // 1. [{upload_url}]
+  // 2. { files: [{upload_url}] }
+  // 3. { upload_urls: { "filename": { "file_url": "..." } } }
+
+  if (data.upload_urls && data.upload_urls[fileName]) {
+    return data.upload_urls[fileName].file_url;
+  }
+
+  const files = Array.isArray(data) ? data : data.files;
+  if (files && files[0] && files[0].upload_url) {
+    return files[0].upload_url;
+  }
+
+  throw new Error(
+    `Invalid response structure from getUploadUrl: ${JSON.stringify(data)}`,
+  );
+}
+
+async function startBatchJob(jobId: string): Promise<void> {
+  const url = `${getBaseUrl()}/speech-to-text/job/v1/${jobId}/start`;
+  await upstreamFetch(
+    "batch",
+    url,
+    { method: "POST", headers: getAuthHeaders(false) },
+    "Failed to start batch job",
+    { idempotent: false },
+  );
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function extractUrls(obj: any): string[] {
+  const urls: string[] = [];
+  if (!obj || typeof obj !== "object") return urls;
+  for (const value of Object.values(obj)) {
+    if (typeof value === "string" && value.startsWith("http")) {
+      urls.push(value);
+    } else if (typeof value === "object" && value !== null) {
+      // Handle nested objects like { download_url: "...", file_url: "..." }
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const nested = value as Record<string, any>;
+      const directUrl =
+        nested.download_url || nested.file_url || nested.url || nested.sas_url;
+      if (typeof directUrl === "string" && directUrl.startsWith("http")) {
+        urls.push(directUrl);
+      } else {
+        // Recurse
+        urls.push(...extractUrls(value));
+      }
+    }
+  }
+  return urls;
+}
+
+async function getDownloadUrls(
+  jobId: string,
+  fileName: string,
+): Promise<string[]> {
+  const url = `${getBaseUrl()}/speech-to-text/job/v1/download-files`;
+  const response = await upstreamFetch(
+    "batch",
+    url,
+    {
+      method: "POST",
+      headers: getAuthHeaders(false),
+      body: JSON.stringify({ job_id: jobId, files: [fileName] }),
+    },
+    "Failed to get download URLs",
+  );
+
+  const data = await response.json();
+  console.log("Download URLs full response:", JSON.stringify(data));
+
+  const extracted = extractUrls(data);
+  console.log("Extracted URL count:", extracted.length);
+  return extracted;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function getBatchJobStatus(jobId: string): Promise<any> {
+  const url = `${getBaseUrl()}/speech-to-text/job/v1/${jobId}/status`;
+  const response = await upstreamFetch(
+    "batch",
+    url,
+    { headers: getAuthHeaders(false) },
+    "Failed to get job status",
+  );
+
+  const data = await response.json();
+  console.log("Sarvam Job Status Response:", JSON.stringify(data));
+  return data;
+}
+
+// 5. Azure Blob Storage (SAS URLs handed out by the batch API)
+async function uploadFile(
+  uploadUrl: string,
+  buffer: Buffer,
+  mimeType: string,
+): Promise<void> {
+  await upstreamFetch(
+    "storage",
+    uploadUrl,
+    {
+      method: "PUT",
+      headers: {
+        "x-ms-blob-type": "BlockBlob",
+        "Content-Type": mimeType,
+      },
+      body: new Uint8Array(buffer),
+    },
+    "Failed to upload to Azure",
+  );
+}
+
+async function uploadBlock(
+  uploadUrl: string,
+  blockId: string,
+  chunk: Buffer,
+  md5?: string,
+): Promise<void> {
+  await upstreamFetch(
+    "storage",
+    `${uploadUrl}&comp=block&blockid=${encodeURIComponent(blockId)}`,
+    {
+      method: "PUT",
+      headers: {
+        "Content-Length": chunk.length.toString(),
+        // Azure rejects the block with 400 Md5Mismatch if it arrived damaged
+        ...(md5 ? { "Content-MD5": md5 } : {}),
+      },
+      body: new Uint8Array(chunk),
+    },
+    "Failed to upload chunk to Azure",
+  );
+}
+
+async function listUncommittedBlocks(
+  uploadUrl: string,
+): Promise<UploadedBlock[]> {
+  let response: Response;
+  try {
+    response = await upstreamFetch(
+      "storage",
+      `${uploadUrl}&comp=blocklist&blocklisttype=uncommitted`,
+      {},
+      "Failed to list uploaded blocks",
+    );
+  } catch (err: unknown) {
+    // Nothing staged yet: the blob doesn't exist
+    if (err instanceof UpstreamError && err.status === 404) return [];
+    throw err;
+  }
+
+  const xml = await response.text();
+  return [...xml.matchAll(/<Block>([\s\S]*?)<\/Block>/g)].map(([, block]) => ({
+    id: block.match(/<Name>(.*?)<\/Name>/)?.[1] ?? "",
+    size: Number(block.match(/<Size>(\d+)<\/Size>/)?.[1] ?? 0),
+  }));
+}
+
+async function commitBlocks(
+  uploadUrl: string,
+  blockIds: string[],
+  mimeType: string,
+): Promise<void> {
+  const blockListXml = `<?xml version="1.0" encoding="utf-8"?><BlockList>${blockIds.map((id) => `<Latest>${id}</Latest>`).join("")}</BlockList>`;
+
+  await upstreamFetch(
+    "storage",
+    `${uploadUrl}&comp=blocklist`,
+    {
+      method: "PUT",
+      headers: {
+        "x-ms-blob-content-type": mimeType,
+        "Content-Type": "application/xml",
+      },
+      body: blockListXml,
+    },
+    "Failed to commit chunked upload to Azure",
+  );
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function fetchBatchResult(downloadUrl: string): Promise<any> {
+  const response = await upstreamFetch(
+    "storage",
+    downloadUrl,
+    {},
+    "Failed to fetch job results from storage",
+  );
+  return response.json();
+}
+
+export const sarvamProvider: SpeechProvider = {
+  name: "sarvam",
+  speechToText,
+  translateText,
+  textToSpeech,
+  batch: {
+    initiateBatchJob,
+    getUploadUrl,
+    uploadFile,
+    uploadBlock,
+    listUncommittedBlocks,
+    commitBlocks,
+    startBatchJob,
+    getBatchJobStatus,
+    getDownloadUrls,
+    fetchBatchResult,
+  },
+};
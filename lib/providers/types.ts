@@ -0,0 +1,105 @@
+import type { TranslationStyle } from "../translationOptions";
+
+export interface SpeakerConfig {
+  name: string;
+  gender: string;
+  pace: number;
+  pitch?: number;
+  loudness?: number;
+  sampleRate?: number;
+}
+
+export interface TimedWord {
+  text: string;
+  start: number; // seconds
+  end: number; // seconds
+  speaker?: string;
+}
+
+export interface SpeechToTextResult {
+  text: string;
+  // Language the provider reports for the audio; "auto" when it reported none
+  languageCode: string;
+  // Language-ID confidence (0-1), when the provider reports one
+  languageProbability?: number;
+  words?: TimedWord[];
+}
+
+export interface BatchJobOptions {
+  // Split the transcript by speaker (multi-party calls, meetings)
+  diarization?: boolean;
+  numSpeakers?: number;
+  // Spoken language; unset lets the provider detect it
+  languageCode?: string;
+}
+
+// A block staged in blob storage but not yet committed
+export interface UploadedBlock {
+  id: string;
+  size: number;
+}
+
+export interface BatchJobInfo {
+  job_id: string;
+  blob_container_url: string;
+}
+
+/**
+ * Batch (long audio) speech-to-text. The job lifecycle mirrors Sarvam's
+ * job API: initiate -> upload -> start -> poll status -> download results.
+ */
+export interface BatchSpeechToTextProvider {
+  initiateBatchJob(
+    fileName: string,
+    options?: BatchJobOptions,
+  ): Promise<BatchJobInfo>;
+  getUploadUrl(jobId: string, fileName: string): Promise<string>;
+  uploadFile(
+    uploadUrl: string,
+    buffer: Buffer,
+    mimeType: string,
+  ): Promise<void>;
+  // md5 is the base64 Content-MD5 of the chunk, checked by the store
+  uploadBlock(
+    uploadUrl: string,
+    blockId: string,
+    chunk: Buffer,
+    md5?: string,
+  ): Promise<void>;
+  // Staged blocks, so an interrupted upload can skip what already landed
+  listUncommittedBlocks(uploadUrl: string): Promise<UploadedBlock[]>;
+  commitBlocks(
+    uploadUrl: string,
+    blockIds: string[],
+    mimeType: string,
+  ): Promise<void>;
+  startBatchJob(jobId: string): Promise<void>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  getBatchJobStatus(jobId: string): Promise<any>;
+  getDownloadUrls(jobId: string, fileName: string): Promise<string[]>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  fetchBatchResult(downloadUrl: string): Promise<any>;
+}
+
+export interface SpeechProvider {
+  name: string;
+  // languageCode is the spoken language; unset lets the provider detect it
+  speechToText(
+    audioBuffer: Buffer,
+    mimeType: string,
+    languageCode?: string,
+  ): Promise<SpeechToTextResult>;
+  translateText(
+    text: string,
+    targetLanguage: string,
+    sourceLanguage: string,
+    speakerGender: string,
+    style: TranslationStyle,
+  ): Promise<string>;
+  textToSpeech(
+    text: string,
+    targetLanguage: string,
+    speakerConfig: SpeakerConfig,
+  ): Promise<string>;
+  batch: BatchSpeechToTextProvider;
+}
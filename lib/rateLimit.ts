@@ -0,0 +1,250 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { KeyQuotas, Principal } from "./auth";
+
+/**
+ * Request rate limiting (token bucket) and daily usage quotas, keyed by API
+ * key id or, for anonymous callers, client IP.
+ *
+ * State lives in a RateLimitStore. The default keeps it in process memory;
+ * call setRateLimitStore() with a shared implementation (Redis and the like)
+ * when running more than one instance.
+ *
+ * Quotas are checked before work starts and charged as it is done, so one
+ * request can run past the limit; the next one is refused.
+ */
+
+export interface RateLimitStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  // Adds to a counter (created at 0) and returns the new total
+  increment(key: string, amount: number, ttlMs: number): Promise<number>;
+}
+
+export type QuotaKind = keyof Required<KeyQuotas>;
+
+export interface QuotaStatus {
+  used: number;
+  limit: number | null; // null: unlimited
+  remaining: number | null;
+}
+
+export interface RateLimitStatus {
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+const QUOTA_KINDS: QuotaKind[] = ["audioMinutes", "translateChars", "ttsChars"];
+export const QUOTA_LABELS: Record<QuotaKind, string> = {
+  audioMinutes: "audio minutes",
+  translateChars: "translated characters",
+  ttsChars: "speech characters",
+};
+const QUOTA_ENV: Record<QuotaKind, [string, number]> = {
+  audioMinutes: ["QUOTA_AUDIO_MINUTES_PER_DAY", 60],
+  translateChars: ["QUOTA_TRANSLATE_CHARS_PER_DAY", 100_000],
+  ttsChars: ["QUOTA_TTS_CHARS_PER_DAY", 100_000],
+};
+
+const getBurst = () => Number(process.env.RATE_LIMIT_BURST || 20);
+const getPerMinute = () => Number(process.env.RATE_LIMIT_PER_MINUTE || 60);
+
+interface Entry {
+  value: unknown;
+  expiresAt: number;
+}
+
+class MemoryStore implements RateLimitStore {
+  private entries = new Map<string, Entry>();
+
+  private live(key: string): Entry | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private sweep() {
+    // Expired entries are only dropped on access; clear them out now and then
+    if (this.entries.size < 10_000) return;
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.live(key)?.value as T | undefined;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.sweep();
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  async increment(key: string, amount: number, ttlMs: number): Promise<number> {
+    const entry = this.live(key);
+    const total = ((entry?.value as number) ?? 0) + amount;
+    this.sweep();
+    this.entries.set(key, {
+      value: total,
+      expiresAt: entry?.expiresAt ?? Date.now() + ttlMs,
+    });
+    return total;
+  }
+}
+
+// Survive module reloads in `next dev`
+const globalForLimits = globalThis as unknown as {
+  rateLimitStore?: RateLimitStore;
+};
+
+const getStore = () => (globalForLimits.rateLimitStore ??= new MemoryStore());
+
+export function setRateLimitStore(store: RateLimitStore): void {
+  globalForLimits.rateLimitStore = store;
+}
+
+// API key id when known, otherwise the client IP from the proxy headers
+export function usageKeyFor(principal: Principal, req: NextRequest): string {
+  if (principal.via !== "anonymous") return `key:${principal.id}`;
+  const ip =
+    req.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+    req.headers.get("x-real-ip") ||
+    "unknown";
+  return `ip:${ip}`;
+}
+
+/**
+ * Takes `cost` tokens from the caller's bucket. The bucket holds
+ * RATE_LIMIT_BURST tokens and refills at RATE_LIMIT_PER_MINUTE.
+ */
+export async function consumeRateLimit(
+  usageKey: string,
+  cost = 1,
+): Promise<RateLimitStatus & { allowed: boolean }> {
+  const capacity = getBurst();
+  const perSecond = getPerMinute() / 60;
+  const key = `rate:${usageKey}`;
+  const now = Date.now();
+
+  const bucket = (await getStore().get<{ tokens: number; at: number }>(
+    key,
+  )) ?? { tokens: capacity, at: now };
+  const tokens = Math.min(
+    capacity,
+    bucket.tokens + ((now - bucket.at) / 1000) * perSecond,
+  );
+  const allowed = tokens >= cost;
+  const left = allowed ? tokens - cost : tokens;
+  // Keep the bucket only as long as it takes to refill completely
+  const ttlMs = ((capacity - left) / perSecond) * 1000 + 1000;
+  await getStore().set(key, { tokens: left, at: now }, ttlMs);
+
+  return {
+    allowed,
+    limit: capacity,
+    remaining: Math.floor(left),
+    retryAfterSeconds: allowed ? 0 : Math.ceil((cost - left) / perSecond),
+  };
+}
+
+// Quotas reset at midnight UTC
+const today = () => new Date().toISOString().slice(0, 10);
+const secondsUntilReset = () => {
+  const midnight = new Date();
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - Date.now()) / 1000);
+};
+const quotaKey = (usageKey: string, kind: QuotaKind) =>
+  `quota:${usageKey}:${kind}:${today()}`;
+
+// Per-key override, then the env default; 0 or less means unlimited
+function quotaLimit(kind: QuotaKind, quotas?: KeyQuotas): number | null {
+  const [name, fallback] = QUOTA_ENV[kind];
+  const limit = quotas?.[kind] ?? Number(process.env[name] ?? fallback);
+  return limit > 0 ? limit : null;
+}
+
+export async function getUsage(
+  usageKey: string,
+  quotas?: KeyQuotas,
+): Promise<Record<QuotaKind, QuotaStatus>> {
+  const entries = await Promise.all(
+    QUOTA_KINDS.map(async (kind) => {
+      const used =
+        (await getStore().get<number>(quotaKey(usageKey, kind))) ?? 0;
+      const limit = quotaLimit(kind, quotas);
+      const remaining = limit === null ? null : Math.max(0, limit - used);
+      return [kind, { used, limit, remaining }] as const;
+    }),
+  );
+  return Object.fromEntries(entries) as Record<QuotaKind, QuotaStatus>;
+}
+
+export async function recordUsage(
+  usageKey: string | undefined,
+  kind: QuotaKind,
+  amount: number,
+): Promise<void> {
+  if (!usageKey || amount <= 0) return;
+  await getStore().increment(
+    quotaKey(usageKey, kind),
+    amount,
+    (secondsUntilReset() + 3600) * 1000,
+  );
+}
+
+const tooManyRequests = (error: string, retryAfterSeconds: number) =>
+  NextResponse.json(
+    { error, retryAfterSeconds },
+    {
+      status: 429,
+      headers: { "Retry-After": String(Math.max(1, retryAfterSeconds)) },
+    },
+  );
+
+/**
+ * Checks that each listed quota has room for the expected amount (0 = just
+ * not exhausted yet). Returns the 429 response to send, or null.
+ */
+export async function checkQuotas(
+  principal: Principal,
+  usageKey: string,
+  expected: Partial<Record<QuotaKind, number>>,
+): Promise<NextResponse | null> {
+  const usage = await getUsage(usageKey, principal.quotas);
+  for (const [kind, amount = 0] of Object.entries(expected) as [
+    QuotaKind,
+    number | undefined,
+  ][]) {
+    const { remaining } = usage[kind];
+    if (remaining !== null && (remaining <= 0 || amount > remaining)) {
+      return tooManyRequests(
+        `Not enough daily quota of ${QUOTA_LABELS[kind]} left`,
+        secondsUntilReset(),
+      );
+    }
+  }
+  return null;
+}
+
+/**
+ * Route guard for paid work: takes one rate-limit token, then checks quotas.
+ *
+ *   const limited = await enforceLimits(auth, usageKey, { ttsChars: 120 });
+ *   if (limited) return limited;
+ */
+export async function enforceLimits(
+  principal: Principal,
+  usageKey: string,
+  expected: Partial<Record<QuotaKind, number>> = {},
+): Promise<NextResponse | null> {
+  const rate = await consumeRateLimit(usageKey);
+  if (!rate.allowed) {
+    return tooManyRequests("Rate limit exceeded", rate.retryAfterSeconds);
+  }
+  return checkQuotas(principal, usageKey, expected);
+}
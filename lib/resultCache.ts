@@ -0,0 +1,202 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { LRUCache } from "lru-cache";
+
+/**
+ * Content-addressed cache for provider results: audio hash -> transcript,
+ * (text, languages, gender) -> translation, (text, language, voice) -> TTS
+ * audio. Keys are SHA-256 hashes of everything that shapes the output,
+ * provider name included, so a hit is always the same answer the provider
+ * would have given.
+ *
+ * Results live in an in-memory LRU bounded by RESULT_CACHE_MAX_MB. Setting
+ * RESULT_CACHE_DIR adds a disk tier that survives restarts and is shared by
+ * processes on the same machine. Identical requests made while one is still
+ * in flight wait for that one instead of calling the provider again.
+ */
+
+export type CacheKind = "stt" | "translate" | "tts";
+
+export interface CacheStats {
+  hits: number; // served from memory
+  diskHits: number;
+  misses: number;
+  entries: number;
+  sizeBytes: number;
+  hitRate: number; // (hits + diskHits) / lookups, 0 before any lookup
+}
+
+const CACHE_KINDS: CacheKind[] = ["stt", "translate", "tts"];
+
+const getMaxBytes = () =>
+  Number(process.env.RESULT_CACHE_MAX_MB ?? 100) * 1024 * 1024;
+const getTtlMs = () =>
+  Number(process.env.RESULT_CACHE_TTL_HOURS || 24) * 60 * 60 * 1000;
+const getCacheDir = () => process.env.RESULT_CACHE_DIR;
+
+interface Counters {
+  hits: number;
+  diskHits: number;
+  misses: number;
+}
+
+// Survive module reloads in `next dev`
+const globalForCache = globalThis as unknown as {
+  resultCache?: LRUCache<string, string>;
+  resultCacheCounters?: Record<CacheKind, Counters>;
+  resultCacheInFlight?: Map<string, Promise<unknown>>;
+};
+
+// Values are stored as JSON strings, so their length is their size
+function getMemory(): LRUCache<string, string> {
+  return (globalForCache.resultCache ??= new LRUCache<string, string>({
+    maxSize: Math.max(1, getMaxBytes()),
+    sizeCalculation: (value, key) => value.length + key.length,
+    ttl: getTtlMs(),
+  }));
+}
+
+const counters = () =>
+  (globalForCache.resultCacheCounters ??= {
+    stt: { hits: 0, diskHits: 0, misses: 0 },
+    translate: { hits: 0, diskHits: 0, misses: 0 },
+    tts: { hits: 0, diskHits: 0, misses: 0 },
+  });
+
+const inFlight = () => (globalForCache.resultCacheInFlight ??= new Map());
+
+/** Hash of the parts that determine a result, as a cache key. */
+export function cacheKey(
+  kind: CacheKind,
+  ...parts: (string | number | boolean | Buffer | undefined)[]
+): string {
+  const hash = createHash("sha256");
+  for (const part of parts) {
+    // Length-prefixed so ("ab", "c") and ("a", "bc") differ
+    const bytes = Buffer.isBuffer(part)
+      ? part
+      : Buffer.from(part === undefined ? "" : String(part));
+    hash.update(`${bytes.length}:`).update(bytes);
+  }
+  return `${kind}:${hash.digest("hex")}`;
+}
+
+const diskPath = (dir: string, key: string) => {
+  const [kind, hash] = key.split(":");
+  return path.join(dir, kind, hash.slice(0, 2), `${hash}.json`);
+};
+
+async function readDisk(key: string): Promise<string | undefined> {
+  const dir = getCacheDir();
+  if (!dir) return undefined;
+  const file = diskPath(dir, key);
+  try {
+    const stat = await fs.stat(file);
+    if (Date.now() - stat.mtimeMs > getTtlMs()) {
+      await fs.rm(file, { force: true });
+      return undefined;
+    }
+    return await fs.readFile(file, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw err;
+  }
+}
+
+async function writeDisk(key: string, value: string): Promise<void> {
+  const dir = getCacheDir();
+  if (!dir) return;
+  const file = diskPath(dir, key);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, value);
+  await fs.rename(tmp, file);
+}
+
+/**
+ * Returns the cached result for `key`, or runs `compute` and caches what it
+ * returns. Results `cacheable` rejects (empty ones, say) are returned but
+ * not stored, and errors are never cached. A broken disk tier only logs.
+ */
+export async function cached<T>(
+  key: string,
+  compute: () => Promise<T>,
+  cacheable: (value: T) => boolean = () => true,
+): Promise<T> {
+  // RESULT_CACHE_MAX_MB=0 turns caching off
+  if (getMaxBytes() <= 0) return compute();
+  const kind = key.split(":")[0] as CacheKind;
+  const stats = counters()[kind];
+
+  const memory = getMemory().get(key);
+  if (memory !== undefined) {
+    stats.hits++;
+    return JSON.parse(memory) as T;
+  }
+
+  const pending = inFlight().get(key) as Promise<T> | undefined;
+  if (pending) {
+    stats.hits++;
+    return pending;
+  }
+
+  const lookup = (async () => {
+    const disk = await readDisk(key).catch((err: unknown) => {
+      console.error("[Cache] Disk read failed:", err);
+      return undefined;
+    });
+    if (disk !== undefined) {
+      stats.diskHits++;
+      getMemory().set(key, disk);
+      return JSON.parse(disk) as T;
+    }
+
+    stats.misses++;
+    const value = await compute();
+    if (cacheable(value)) {
+      const json = JSON.stringify(value);
+      getMemory().set(key, json);
+      await writeDisk(key, json).catch((err: unknown) =>
+        console.error("[Cache] Disk write failed:", err),
+      );
+    }
+    return value;
+  })();
+
+  inFlight().set(key, lookup);
+  try {
+    return await lookup;
+  } finally {
+    inFlight().delete(key);
+  }
+}
+
+export function getCacheStats(): Record<CacheKind, CacheStats> {
+  const memory = getMemory();
+  const entries = { stt: 0, translate: 0, tts: 0 };
+  const sizes = { stt: 0, translate: 0, tts: 0 };
+  for (const [key, value] of memory.entries()) {
+    const kind = key.split(":")[0] as CacheKind;
+    entries[kind]++;
+    sizes[kind] += key.length + value.length;
+  }
+
+  return Object.fromEntries(
+    CACHE_KINDS.map((kind) => {
+      const { hits, diskHits, misses } = counters()[kind];
+      const lookups = hits + diskHits + misses;
+      return [
+        kind,
+        {
+          hits,
+          diskHits,
+          misses,
+          entries: entries[kind],
+          sizeBytes: sizes[kind],
+          hitRate: lookups ? (hits + diskHits) / lookups : 0,
+        },
+      ];
+    }),
+  ) as Record<CacheKind, CacheStats>;
+}
@@ -0,0 +1,172 @@
+import { md5Base64 } from "./md5";
+
+/**
+ * Browser side of the chunked direct upload: 2MB blocks proxied through
+ * /api/translate-audio, each sent with its MD5 and retried with backoff.
+ * The job id and its opaque upload token are kept in localStorage (the
+ * storage URL never leaves the server), so after a refresh or a dropped
+ * connection the same file picks up where it left off, skipping the blocks
+ * Azure already holds.
+ */
+
+export const UPLOAD_BLOCK_SIZE = 2 * 1024 * 1024;
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 10_000;
+const STORAGE_PREFIX = "stt-upload:";
+
+// The server keeps the storage URL; the browser only holds the token
+export interface SavedUpload {
+  jobId: string;
+  uploadToken: string;
+  expiresAt: string;
+}
+
+export interface UploadProgress {
+  current: number;
+  total: number;
+  message: string;
+}
+
+// `retryable` is false when trying again can't help (bad request, expired URL)
+export class UploadError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+  ) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+// Same file plus the same job settings; anything else starts a new upload
+export function uploadKey(file: Blob, settings: unknown): string {
+  const name = file instanceof File ? file.name : "recording";
+  const modified = file instanceof File ? file.lastModified : 0;
+  return `${STORAGE_PREFIX}${name}:${file.size}:${modified}:${JSON.stringify(settings)}`;
+}
+
+export function loadUpload(key: string): SavedUpload | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(key) || "null");
+    // Expired tokens can't be resumed
+    if (saved && Date.parse(saved.expiresAt) > Date.now()) return saved;
+  } catch {
+    // Unreadable entry: start over
+  }
+  localStorage.removeItem(key);
+  return null;
+}
+
+export function saveUpload(key: string, upload: SavedUpload): void {
+  localStorage.setItem(key, JSON.stringify(upload));
+}
+
+export function clearUpload(key: string): void {
+  localStorage.removeItem(key);
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// Timeouts, throttling, checksum mismatches and server errors are transient
+const isRetryableStatus = (status: number) =>
+  status === 408 || status === 422 || status === 429 || status >= 500;
+
+/**
+ * fetch with exponential backoff and jitter. Network failures and transient
+ * statuses are retried; other errors throw straight away.
+ */
+export async function fetchWithRetry(
+  label: string,
+  makeRequest: () => Promise<Response>,
+): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    let failure: UploadError;
+    try {
+      const res = await makeRequest();
+      if (res.ok) return res;
+      const data = await res.json().catch(() => ({}));
+      failure = new UploadError(
+        `${label} failed: ${data.error || res.statusText}`,
+        isRetryableStatus(res.status),
+      );
+    } catch (err: unknown) {
+      // fetch itself rejects on network errors
+      failure = new UploadError(
+        `${label} failed: ${err instanceof Error ? err.message : String(err)}`,
+        true,
+      );
+    }
+    if (!failure.retryable || attempt >= MAX_ATTEMPTS) throw failure;
+    const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+    console.warn(`${failure.message} (attempt ${attempt}), retrying...`);
+    await sleep(delay * (0.5 + Math.random() / 2));
+  }
+}
+
+// Block ids must be base64 and the same length for every block of a blob
+const blockIdFor = (index: number) =>
+  btoa(`block-${index.toString().padStart(5, "0")}`);
+
+/**
+ * Uploads every block of `file` that Azure doesn't already have and returns
+ * the full, ordered block list to commit.
+ */
+export async function uploadBlocks(
+  file: Blob,
+  { jobId, uploadToken }: SavedUpload,
+  onProgress: (progress: UploadProgress) => void,
+): Promise<string[]> {
+  const total = Math.ceil(file.size / UPLOAD_BLOCK_SIZE);
+  const blockIds = Array.from({ length: total }, (_, i) => blockIdFor(i));
+  const sizeOf = (i: number) =>
+    Math.min(UPLOAD_BLOCK_SIZE, file.size - i * UPLOAD_BLOCK_SIZE);
+
+  // 1. Ask which blocks landed before an interruption
+  const statusRes = await fetchWithRetry("Reading upload progress", () =>
+    fetch("/api/translate-audio", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ action: "uploadStatus", jobId, uploadToken }),
+    }),
+  );
+  const { blocks = [] } = (await statusRes.json()) as {
+    blocks?: { id: string; size: number }[];
+  };
+  const staged = new Map(blocks.map((b) => [b.id, b.size]));
+  const pending = blockIds
+    .map((_, i) => i)
+    .filter((i) => staged.get(blockIds[i]) !== sizeOf(i));
+  if (pending.length < total) {
+    console.log(
+      `Resuming upload: ${total - pending.length}/${total} blocks done`,
+    );
+  }
+
+  // 2. Upload the rest, one block at a time
+  let done = total - pending.length;
+  for (const i of pending) {
+    onProgress({
+      current: done,
+      total,
+      message: `Uploading chunk ${i + 1} of ${total}...`,
+    });
+    const start = i * UPLOAD_BLOCK_SIZE;
+    const chunk = file.slice(start, start + sizeOf(i));
+    const md5 = md5Base64(new Uint8Array(await chunk.arrayBuffer()));
+
+    await fetchWithRetry(`Uploading chunk ${i + 1}`, () => {
+      const form = new FormData();
+      form.append("action", "uploadChunk");
+      form.append("jobId", jobId);
+      form.append("uploadToken", uploadToken);
+      form.append("blockId", blockIds[i]);
+      form.append("md5", md5);
+      form.append("chunk", chunk);
+      return fetch("/api/translate-audio", { method: "POST", body: form });
+    });
+    done++;
+  }
+
+  return blockIds;
+}
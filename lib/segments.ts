@@ -0,0 +1,222 @@
+import type { TimedWord } from "./providers";
+
+export type { TimedWord } from "./providers";
+
+export interface TranscriptSegment {
+  start: number; // seconds
+  end: number; // seconds
+  text: string;
+  translatedText?: string;
+  speaker?: string;
+  words?: TimedWord[];
+}
+
+// One speaker's stretch in a diarized transcript
+export interface DiarizedEntry {
+  speaker: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Subtitle-friendly cue limits
+const MAX_SEGMENT_SECONDS = 7;
+const MAX_SEGMENT_CHARS = 84;
+const MAX_WORD_GAP_SECONDS = 1;
+const SENTENCE_END = /[.?!।॥]["')\]]*$/;
+
+/**
+ * Reads word timings from an STT response. Sarvam returns parallel arrays:
+ * { timestamps: { words: [], start_time_seconds: [], end_time_seconds: [] } }
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseTimestamps(data: any): TimedWord[] {
+  const ts = data?.timestamps;
+  if (
+    !ts ||
+    !Array.isArray(ts.words) ||
+    !Array.isArray(ts.start_time_seconds) ||
+    !Array.isArray(ts.end_time_seconds)
+  ) {
+    return [];
+  }
+
+  const words: TimedWord[] = [];
+  for (let i = 0; i < ts.words.length; i++) {
+    const text = String(ts.words[i] ?? "").trim();
+    const start = Number(ts.start_time_seconds[i]);
+    const end = Number(ts.end_time_seconds[i]);
+    if (text && Number.isFinite(start) && Number.isFinite(end)) {
+      words.push({ text, start, end: Math.max(start, end) });
+    }
+  }
+  return words;
+}
+
+/**
+ * Reads speaker turns from a diarized batch result:
+ * { diarized_transcript: { entries: [{ transcript, start_time_seconds,
+ *   end_time_seconds, speaker_id }] } }
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseDiarizedEntries(data: any): DiarizedEntry[] {
+  const entries = data?.diarized_transcript?.entries;
+  if (!Array.isArray(entries)) return [];
+
+  const parsed: DiarizedEntry[] = [];
+  for (const entry of entries) {
+    const text = String(entry?.transcript ?? "").trim();
+    const start = Number(entry?.start_time_seconds);
+    const end = Number(entry?.end_time_seconds);
+    if (text && Number.isFinite(start) && Number.isFinite(end)) {
+      parsed.push({
+        speaker: String(entry.speaker_id ?? "SPEAKER_00"),
+        start,
+        end,
+        text,
+      });
+    }
+  }
+  return parsed;
+}
+
+// Tag each word with the speaker whose turn contains its midpoint
+export function assignSpeakers(
+  words: TimedWord[],
+  entries: DiarizedEntry[],
+): TimedWord[] {
+  return words.map((word) => {
+    const mid = (word.start + word.end) / 2;
+    const entry =
+      entries.find((e) => mid >= e.start && mid <= e.end) ??
+      // Fall back to the nearest turn for words in the gaps
+      entries.reduce((best, e) =>
+        Math.abs((e.start + e.end) / 2 - mid) <
+        Math.abs((best.start + best.end) / 2 - mid)
+          ? e
+          : best,
+      );
+    return { ...word, speaker: entry.speaker };
+  });
+}
+
+/**
+ * Builds segments for a batch result, preferring word timings (finer cues)
+ * and tagging speakers when the job was diarized.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function segmentsFromResult(data: any): TranscriptSegment[] {
+  const words = parseTimestamps(data);
+  const entries = parseDiarizedEntries(data);
+  if (entries.length === 0) return groupIntoSegments(words);
+  if (words.length > 0)
+    return groupIntoSegments(assignSpeakers(words, entries));
+  return entries.map(({ speaker, start, end, text }) => ({
+    speaker,
+    start,
+    end,
+    text,
+  }));
+}
+
+// Shift cues (and their words) later by `seconds`, e.g. to undo a trim
+export function offsetSegments(
+  segments: TranscriptSegment[],
+  seconds: number,
+): TranscriptSegment[] {
+  if (!seconds) return segments;
+  const shift = <T extends { start: number; end: number }>(t: T): T => ({
+    ...t,
+    start: t.start + seconds,
+    end: t.end + seconds,
+  });
+  return segments.map((segment) => ({
+    ...shift(segment),
+    ...(segment.words ? { words: segment.words.map(shift) } : {}),
+  }));
+}
+
+/**
+ * Groups timed words into cues, breaking at sentence ends, long pauses,
+ * speaker changes, and the duration/length limits above.
+ */
+export function groupIntoSegments(words: TimedWord[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let current: TimedWord[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    segments.push({
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      text: current.map((w) => w.text).join(" "),
+      ...(current[0].speaker ? { speaker: current[0].speaker } : {}),
+      words: current,
+    });
+    current = [];
+  };
+
+  for (const word of words) {
+    if (current.length > 0) {
+      const first = current[0];
+      const last = current[current.length - 1];
+      const length =
+        current.reduce((n, w) => n + w.text.length + 1, 0) + word.text.length;
+      if (
+        word.speaker !== last.speaker ||
+        word.start - last.end > MAX_WORD_GAP_SECONDS ||
+        word.end - first.start > MAX_SEGMENT_SECONDS ||
+        length > MAX_SEGMENT_CHARS
+      ) {
+        flush();
+      }
+    }
+    current.push(word);
+    if (SENTENCE_END.test(word.text)) flush();
+  }
+  flush();
+  return segments;
+}
+
+// Consecutive segments by the same speaker, in transcript order
+export function speakerTurns(
+  segments: TranscriptSegment[],
+): { speaker?: string; segments: TranscriptSegment[] }[] {
+  const turns: { speaker?: string; segments: TranscriptSegment[] }[] = [];
+  for (const segment of segments) {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.segments.push(segment);
+    } else {
+      turns.push({ speaker: segment.speaker, segments: [segment] });
+    }
+  }
+  return turns;
+}
+
+// "Speaker 1", "Speaker 2", ... in order of first appearance
+export function speakerLabels(
+  segments: TranscriptSegment[],
+): Record<string, string> {
+  const labels: Record<string, string> = {};
+  for (const { speaker } of segments) {
+    if (speaker && !labels[speaker]) {
+      labels[speaker] = `Speaker ${Object.keys(labels).length + 1}`;
+    }
+  }
+  return labels;
+}
+
+// One line per speaker turn, e.g. "Speaker 1: Hello there."
+export function formatSpeakerTranscript(
+  segments: TranscriptSegment[],
+  field: "text" | "translatedText",
+): string {
+  const labels = speakerLabels(segments);
+  return speakerTurns(segments)
+    .map((turn) => {
+      const text = turn.segments.map((s) => s[field] ?? s.text).join(" ");
+      return turn.speaker ? `${labels[turn.speaker]}: ${text}` : text;
+    })
+    .join("\n");
+}
@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { speechToText } from "./sarvam";
+import {
+  dropOverlap,
+  splitAtSilence,
+  transcribeInPieces,
+} from "./splitTranscribe";
+import { encodeSamples, encodeWav, parseWav, type WavFormat } from "./wav";
+
+vi.mock("./sarvam", () => ({ speechToText: vi.fn() }));
+const stt = vi.mocked(speechToText);
+
+const format: WavFormat = {
+  audioFormat: 1,
+  channels: 1,
+  sampleRate: 16000,
+  bitsPerSample: 16,
+};
+
+// `seconds` of 440 Hz tone, silent during each [start, end) gap
+function toneWithGaps(seconds: number, gaps: [number, number][]): Buffer {
+  const rate = format.sampleRate;
+  const samples = new Float32Array(seconds * rate);
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / rate;
+    if (gaps.some(([start, end]) => t >= start && t < end)) continue;
+    samples[i] = 0.3 * Math.sin((2 * Math.PI * 440 * i) / rate);
+  }
+  return encodeWav({ format, data: encodeSamples([samples], format) });
+}
+
+const durationOf = (wav: Buffer) => {
+  const { format, data } = parseWav(wav);
+  return data.length / (format.sampleRate * format.channels * 2);
+};
+
+describe("splitAtSilence", () => {
+  it("cuts inside the pauses and overlaps each later piece by a second", () => {
+    const pieces = splitAtSilence(
+      toneWithGaps(60, [
+        [22, 23],
+        [45, 46],
+      ]),
+    );
+    expect(pieces).toHaveLength(3);
+
+    const [first, second, third] = pieces;
+    expect(first.start).toBe(0);
+    expect(second.cut).toBeGreaterThanOrEqual(22);
+    expect(second.cut).toBeLessThan(23);
+    expect(third.cut).toBeGreaterThanOrEqual(45);
+    expect(third.cut).toBeLessThan(46);
+    expect(third.end).toBe(60);
+
+    for (const [i, piece] of pieces.entries()) {
+      if (i > 0) {
+        expect(piece.start).toBeCloseTo(piece.cut - 1, 5);
+        expect(pieces[i - 1].end).toBe(piece.cut);
+      }
+      expect(piece.end - piece.start).toBeLessThanOrEqual(28);
+      expect(durationOf(piece.buffer)).toBeCloseTo(piece.end - piece.start, 3);
+    }
+  });
+
+  it("keeps a clip under the piece limit whole", () => {
+    const [piece, ...rest] = splitAtSilence(toneWithGaps(20, []));
+    expect(rest).toEqual([]);
+    expect(piece).toMatchObject({ start: 0, cut: 0, end: 20 });
+  });
+});
+
+describe("dropOverlap", () => {
+  it("drops the longest repeated run, ignoring case and punctuation", () => {
+    expect(
+      dropOverlap("the quick brown fox", "Brown fox, jumps over the dog"),
+    ).toBe("jumps over the dog");
+  });
+
+  it("leaves text with nothing repeated unchanged", () => {
+    expect(dropOverlap("the quick brown fox", "jumps over")).toBe("jumps over");
+    expect(dropOverlap("", "jumps over")).toBe("jumps over");
+  });
+});
+
+describe("transcribeInPieces", () => {
+  // 40s with a pause at 22s: two pieces, the second starting a second early
+  const wav = toneWithGaps(40, [[22, 23]]);
+  const [, second] = splitAtSilence(wav);
+
+  beforeEach(() => {
+    stt.mockReset();
+  });
+
+  it("merges timed words by where they fall relative to the cut", async () => {
+    stt
+      .mockResolvedValueOnce({
+        text: "hello there",
+        languageCode: "en-IN",
+        words: [
+          { text: "hello", start: 20, end: 20.5 },
+          { text: "there", start: 21.9, end: 22.3 },
+        ],
+      })
+      .mockResolvedValueOnce({
+        text: "there friend",
+        languageCode: "en-IN",
+        words: [
+          // Heard again in the overlap, before the cut
+          { text: "there", start: 0.4, end: 0.8 },
+          { text: "friend", start: 1.5, end: 2 },
+        ],
+      });
+
+    const result = await transcribeInPieces(wav);
+    expect(stt).toHaveBeenCalledTimes(2);
+    expect(result.text).toBe("hello there friend");
+    expect(result.languageCode).toBe("en-IN");
+    expect(result.words).toEqual([
+      { text: "hello", start: 20, end: 20.5 },
+      { text: "there", start: 21.9, end: 22.3 },
+      {
+        text: "friend",
+        start: expect.closeTo(second.start + 1.5),
+        end: expect.closeTo(second.start + 2),
+      },
+    ]);
+  });
+
+  it("falls back to matching repeated words without timestamps", async () => {
+    stt
+      .mockResolvedValueOnce({
+        text: "hello there",
+        languageCode: "hi-IN",
+        languageProbability: 0.9,
+      })
+      .mockResolvedValueOnce({
+        text: "There, friend",
+        languageCode: "hi-IN",
+        languageProbability: 0.7,
+      });
+
+    const result = await transcribeInPieces(wav);
+    expect(result.text).toBe("hello there friend");
+    expect(result.words).toBeUndefined();
+    expect(result.languageCode).toBe("hi-IN");
+    expect(result.languageProbability).toBeCloseTo(0.8);
+  });
+});
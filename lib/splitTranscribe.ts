@@ -0,0 +1,198 @@
+import { speechToText, type SpeechToTextResult } from "./sarvam";
+import { convertWav, decodeSamples, encodeWav, parseWav } from "./wav";
+import type { TimedWord } from "./segments";
+import { mapInPool } from "./taskPool";
+import { AUTO_DETECT } from "./languages";
+
+/**
+ * Transcribes clips that are too long for sync STT by cutting them at quiet
+ * points into pieces under the sync limit, sending the pieces concurrently
+ * (through the shared "stt" pool) and stitching the transcripts back
+ * together in order. A faster
+ * alternative to a batch job for clips of up to a few minutes.
+ *
+ * Each piece after the first starts OVERLAP_SECONDS before its cut so a word
+ * straddling the cut is heard whole at least once; the duplicate is dropped
+ * when stitching.
+ */
+
+export interface AudioPiece {
+  buffer: Buffer; // 16-bit mono WAV
+  start: number; // where the piece's audio starts, seconds
+  cut: number; // where the piece's own content starts (after the overlap)
+  end: number;
+}
+
+// Pieces stay safely under the 30s sync limit, overlap included
+const PIECE_MAX_SECONDS = 28;
+// Cuts are searched for between these two points of each piece
+const PIECE_MIN_SECONDS = 15;
+const OVERLAP_SECONDS = 1;
+const FRAME_MS = 20;
+// Words compared when de-duplicating overlaps without timestamps
+const MAX_OVERLAP_WORDS = 12;
+
+// Start of the quietest frame in [from, to)
+function quietestFrame(
+  samples: Float32Array,
+  from: number,
+  to: number,
+  frame: number,
+): number {
+  let best = to;
+  let bestEnergy = Infinity;
+  for (let start = from; start + frame <= to; start += frame) {
+    let sum = 0;
+    for (let i = start; i < start + frame; i++) sum += samples[i] * samples[i];
+    // Ties go to the later frame so pieces stay as long as possible
+    if (sum <= bestEnergy) {
+      bestEnergy = sum;
+      best = start + Math.floor(frame / 2);
+    }
+  }
+  return best;
+}
+
+export function splitAtSilence(wav: Buffer): AudioPiece[] {
+  const parsed = parseWav(wav);
+  const format = {
+    audioFormat: 1,
+    channels: 1,
+    sampleRate: parsed.format.sampleRate,
+    bitsPerSample: 16,
+  };
+  const audio = convertWav(parsed, format);
+  const [samples] = decodeSamples(audio);
+  const rate = format.sampleRate;
+
+  const maxFrames = Math.floor(rate * (PIECE_MAX_SECONDS - OVERLAP_SECONDS));
+  const minFrames = Math.floor(rate * PIECE_MIN_SECONDS);
+  const overlap = Math.floor(rate * OVERLAP_SECONDS);
+  const frame = Math.max(1, Math.floor((rate * FRAME_MS) / 1000));
+
+  // 1. Pick cut points at the quietest moment late in each window
+  const cuts = [0];
+  let position = 0;
+  while (samples.length - position > maxFrames) {
+    position = quietestFrame(
+      samples,
+      position + minFrames,
+      position + maxFrames,
+      frame,
+    );
+    cuts.push(position);
+  }
+  cuts.push(samples.length);
+
+  // 2. Slice the PCM directly: 2 bytes per mono 16-bit sample
+  return cuts.slice(0, -1).map((cut, i) => {
+    const start = Math.max(0, cut - (i > 0 ? overlap : 0));
+    const end = cuts[i + 1];
+    return {
+      buffer: encodeWav({
+        format,
+        data: audio.data.subarray(start * 2, end * 2),
+      }),
+      start: start / rate,
+      cut: cut / rate,
+      end: end / rate,
+    };
+  });
+}
+
+const normalizeWord = (word: string) =>
+  word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+
+/**
+ * Drops the leading words of `next` that repeat the end of `previous`:
+ * the longest run of up to MAX_OVERLAP_WORDS that matches.
+ */
+export function dropOverlap(previous: string, next: string): string {
+  const before = previous.split(/\s+/).filter(Boolean).map(normalizeWord);
+  const after = next.split(/\s+/).filter(Boolean);
+  const limit = Math.min(MAX_OVERLAP_WORDS, before.length, after.length);
+  for (let size = limit; size > 0; size--) {
+    const tail = before.slice(-size);
+    const head = after.slice(0, size).map(normalizeWord);
+    if (tail.every((word, i) => word && word === head[i])) {
+      return after.slice(size).join(" ");
+    }
+  }
+  return next;
+}
+
+// Most common language across pieces; the first piece wins ties
+function dominantLanguage(
+  results: SpeechToTextResult[],
+): Pick<SpeechToTextResult, "languageCode" | "languageProbability"> {
+  const counts = new Map<string, number>();
+  for (const { languageCode } of results) {
+    counts.set(languageCode, (counts.get(languageCode) ?? 0) + 1);
+  }
+  let best = results[0]?.languageCode ?? AUTO_DETECT;
+  for (const [code, count] of counts) {
+    if (count > (counts.get(best) ?? 0)) best = code;
+  }
+  // Confidence is the mean over the pieces that agree with the winner
+  const probabilities = results
+    .filter((r) => r.languageCode === best)
+    .flatMap((r) =>
+      r.languageProbability !== undefined ? [r.languageProbability] : [],
+    );
+  return {
+    languageCode: best,
+    ...(probabilities.length
+      ? {
+          languageProbability:
+            probabilities.reduce((a, b) => a + b, 0) / probabilities.length,
+        }
+      : {}),
+  };
+}
+
+export async function transcribeInPieces(
+  wav: Buffer,
+  signal?: AbortSignal,
+  languageCode?: string,
+): Promise<SpeechToTextResult> {
+  const pieces = splitAtSilence(wav);
+  console.log(
+    `[Split STT] ${pieces.length} pieces: ${pieces.map((p) => `${p.start.toFixed(1)}-${p.end.toFixed(1)}s`).join(", ")}`,
+  );
+
+  const results = await mapInPool(
+    "stt",
+    pieces,
+    (piece) => speechToText(piece.buffer, "audio/wav", languageCode),
+    signal,
+  );
+
+  // Timestamps, when every piece has them, say exactly which words fall in
+  // the overlap; otherwise match repeated words in the text
+  const timed = results.every((r) => r.words?.length);
+  const words: TimedWord[] = [];
+  const texts: string[] = [];
+  results.forEach((result, i) => {
+    const piece = pieces[i];
+    if (timed) {
+      const kept = result
+        .words!.map((w) => ({
+          ...w,
+          start: w.start + piece.start,
+          end: w.end + piece.start,
+        }))
+        .filter((w) => i === 0 || (w.start + w.end) / 2 >= piece.cut);
+      words.push(...kept);
+      texts.push(kept.map((w) => w.text).join(" "));
+    } else {
+      const text = result.text.trim();
+      texts.push(i === 0 ? text : dropOverlap(texts[i - 1] ?? "", text));
+    }
+  });
+
+  return {
+    text: texts.filter(Boolean).join(" "),
+    ...dominantLanguage(results),
+    words: timed ? words : undefined,
+  };
+}
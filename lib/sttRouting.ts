@@ -0,0 +1,65 @@
+/**
+ * One policy, shared by the browser and /api/translate-audio, for choosing
+ * between sync, split and batch STT and for how the file reaches the server.
+ */
+
+// Sarvam's sync STT rejects audio longer than this
+export const SYNC_STT_MAX_SECONDS = 30;
+// Vercel caps request bodies at 4.5MB; larger files go up in chunks
+export const API_UPLOAD_MAX_BYTES = 4 * 1024 * 1024;
+// Longest clip the split mode takes on; beyond this a batch job is cheaper
+export const SPLIT_STT_MAX_SECONDS = 5 * 60;
+// Only used when the duration can't be read: 16 kHz mono PCM is ~1MB per 30s
+const UNKNOWN_DURATION_BATCH_BYTES = 1024 * 1024;
+
+// "split": cut at silences and send the pieces to sync STT in parallel
+export type SttMode = "sync" | "split" | "batch";
+// What the caller wants for clips over the sync limit
+export type LongAudioMode = "batch" | "split";
+
+export interface RoutingInput {
+  durationSeconds?: number;
+  sizeBytes: number;
+  diarization?: boolean;
+  longAudio?: LongAudioMode;
+  // Split mode needs decoded PCM; false when the server couldn't decode
+  splittable?: boolean;
+}
+
+export interface RoutingDecision {
+  mode: SttMode;
+  // "direct": chunked upload to blob storage, then a batch job
+  upload: "api" | "direct";
+  reason: string;
+}
+
+export function routeAudio({
+  durationSeconds,
+  sizeBytes,
+  diarization,
+  longAudio = "batch",
+  splittable = true,
+}: RoutingInput): RoutingDecision {
+  const upload = sizeBytes > API_UPLOAD_MAX_BYTES ? "direct" : "api";
+  if (upload === "direct") {
+    return { mode: "batch", upload, reason: "file too large for the API" };
+  }
+  // Speaker diarization is only available from the batch API
+  if (diarization) {
+    return { mode: "batch", upload, reason: "speaker diarization" };
+  }
+  if (durationSeconds !== undefined) {
+    const reason = `${durationSeconds.toFixed(1)}s of audio`;
+    if (durationSeconds <= SYNC_STT_MAX_SECONDS) {
+      return { mode: "sync", upload, reason };
+    }
+    const split =
+      longAudio === "split" &&
+      splittable &&
+      durationSeconds <= SPLIT_STT_MAX_SECONDS;
+    return { mode: split ? "split" : "batch", upload, reason };
+  }
+  return sizeBytes > UNKNOWN_DURATION_BATCH_BYTES
+    ? { mode: "batch", upload, reason: "unknown duration, large file" }
+    : { mode: "sync", upload, reason: "unknown duration, small file" };
+}
@@ -0,0 +1,50 @@
+import { speakerLabels, type TranscriptSegment } from "./segments";
+
+export type SubtitleFormat = "srt" | "vtt";
+export type SubtitleTrack = "original" | "translated";
+
+const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+// SRT uses "00:00:01,500", WebVTT uses "00:00:01.500"
+function formatTimestamp(seconds: number, separator: "," | "."): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3_600_000);
+  const m = Math.floor((totalMs % 3_600_000) / 60_000);
+  const s = Math.floor((totalMs % 60_000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(totalMs % 1000, 3)}`;
+}
+
+function cueText(segment: TranscriptSegment, track: SubtitleTrack): string {
+  const text =
+    track === "translated"
+      ? (segment.translatedText ?? segment.text)
+      : segment.text;
+  // A blank line would end the cue early in both formats
+  return text.replace(/\n\s*\n/g, "\n").trim();
+}
+
+export function toSrt(
+  segments: TranscriptSegment[],
+  track: SubtitleTrack,
+): string {
+  const labels = speakerLabels(segments);
+  return segments
+    .map((segment, i) => {
+      const label = segment.speaker ? `${labels[segment.speaker]}: ` : "";
+      return `${i + 1}\n${formatTimestamp(segment.start, ",")} --> ${formatTimestamp(segment.end, ",")}\n${label}${cueText(segment, track)}\n`;
+    })
+    .join("\n");
+}
+
+export function toWebVtt(
+  segments: TranscriptSegment[],
+  track: SubtitleTrack,
+): string {
+  const labels = speakerLabels(segments);
+  const cues = segments.map((segment) => {
+    // WebVTT voice spans let players style each speaker
+    const voice = segment.speaker ? `<v ${labels[segment.speaker]}>` : "";
+    return `${formatTimestamp(segment.start, ".")} --> ${formatTimestamp(segment.end, ".")}\n${voice}${cueText(segment, track)}\n`;
+  });
+  return ["WEBVTT\n", ...cues].join("\n");
+}
@@ -0,0 +1,130 @@
+/**
+ * Process-wide limits on how many upstream requests of each kind run at
+ * once. Every STT piece, translation chunk and TTS chunk waits for a slot in
+ * its endpoint's pool, so one long transcript can't flood the API with
+ * dozens of simultaneous calls. Waiting tasks start in submission order.
+ *
+ * Pools only wrap single upstream calls: a task must never wait on another
+ * task from the same pool, or a full pool would deadlock.
+ */
+
+export type PoolName = "stt" | "translate" | "tts";
+
+const LIMITS: Record<PoolName, [string, number]> = {
+  stt: ["SPLIT_STT_CONCURRENCY", 4],
+  translate: ["TRANSLATE_CONCURRENCY", 4],
+  tts: ["TTS_CONCURRENCY", 4],
+};
+
+// Thrown for tasks dropped from the queue because their job was cancelled
+export class CancelledError extends Error {
+  constructor(message = "Job cancelled") {
+    super(message);
+    this.name = "CancelledError";
+  }
+}
+
+interface Waiter {
+  start: () => void;
+  signal?: AbortSignal;
+  onAbort: () => void;
+}
+
+interface Pool {
+  active: number;
+  queue: Waiter[];
+}
+
+// Survive module reloads in `next dev`
+const globalForPools = globalThis as unknown as {
+  taskPools?: Map<PoolName, Pool>;
+};
+
+const getLimit = (name: PoolName) => {
+  const [env, fallback] = LIMITS[name];
+  return Math.max(1, Number(process.env[env] || fallback));
+};
+
+function getPool(name: PoolName): Pool {
+  const pools = (globalForPools.taskPools ??= new Map());
+  let pool = pools.get(name);
+  if (!pool) {
+    pool = { active: 0, queue: [] };
+    pools.set(name, pool);
+  }
+  return pool;
+}
+
+const cancelled = (signal?: AbortSignal) =>
+  new CancelledError(
+    typeof signal?.reason === "string" ? signal.reason : undefined,
+  );
+
+// Hand freed slots to the next waiters still wanted
+function drain(name: PoolName, pool: Pool) {
+  while (pool.active < getLimit(name) && pool.queue.length > 0) {
+    const waiter = pool.queue.shift()!;
+    waiter.signal?.removeEventListener("abort", waiter.onAbort);
+    pool.active++;
+    waiter.start();
+  }
+}
+
+/**
+ * Runs `task` once a slot in the named pool is free. If `signal` aborts
+ * while the task is still queued it never starts and the call rejects with
+ * CancelledError; a task already running is left to finish.
+ */
+export async function runInPool<T>(
+  name: PoolName,
+  task: () => Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (signal?.aborted) throw cancelled(signal);
+  const pool = getPool(name);
+
+  await new Promise<void>((resolve, reject) => {
+    const waiter: Waiter = {
+      start: resolve,
+      signal,
+      onAbort: () => {
+        pool.queue = pool.queue.filter((w) => w !== waiter);
+        reject(cancelled(signal));
+      },
+    };
+    signal?.addEventListener("abort", waiter.onAbort, { once: true });
+    pool.queue.push(waiter);
+    drain(name, pool);
+  });
+
+  try {
+    return await task();
+  } finally {
+    pool.active--;
+    drain(name, pool);
+  }
+}
+
+/**
+ * Maps items through the named pool, results in input order. The first
+ * failure cancels the items still queued.
+ */
+export async function mapInPool<T, R>(
+  name: PoolName,
+  items: T[],
+  task: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<R[]> {
+  const failed = new AbortController();
+  const combined = signal
+    ? AbortSignal.any([signal, failed.signal])
+    : failed.signal;
+  try {
+    return await Promise.all(
+      items.map((item, i) => runInPool(name, () => task(item, i), combined)),
+    );
+  } catch (err: unknown) {
+    failed.abort("Cancelled after a sibling task failed");
+    throw err;
+  }
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import {
+  TRANSLATE_MAX_CHARS,
+  TTS_MAX_CHARS,
+  chunkText,
+  joinChunks,
+  splitSentences,
+} from "./textChunker";
+
+// Sentences of varying length, so chunk boundaries don't fall on a pattern
+const prose = (count: number) =>
+  Array.from(
+    { length: count },
+    (_, i) => `Sentence ${i} ${"word ".repeat(i % 17)}ends here.`,
+  ).join(" ");
+
+describe("splitSentences", () => {
+  it("splits on Latin terminators and keeps trailing whitespace", () => {
+    expect(splitSentences("One. Two? Three! Four")).toEqual([
+      "One. ",
+      "Two? ",
+      "Three! ",
+      "Four",
+    ]);
+  });
+
+  it("splits on the danda and double danda", () => {
+    expect(splitSentences("मैं घर जा रहा हूँ। तुम कहाँ हो॥ ठीक है")).toEqual([
+      "मैं घर जा रहा हूँ। ",
+      "तुम कहाँ हो॥ ",
+      "ठीक है",
+    ]);
+  });
+
+  it("splits on the Urdu full stop", () => {
+    expect(splitSentences("میں گھر جا رہا ہوں۔ آپ کہاں ہیں؟")).toEqual([
+      "میں گھر جا رہا ہوں۔ ",
+      "آپ کہاں ہیں؟",
+    ]);
+  });
+
+  it("keeps closing quotes with the sentence and ends at line breaks", () => {
+    expect(splitSentences('He said "stop." Then left\nNew line')).toEqual([
+      'He said "stop." ',
+      "Then left\n",
+      "New line",
+    ]);
+  });
+
+  it("doesn't split inside numbers or abbreviations without a space", () => {
+    expect(splitSentences("Pi is 3.14 today.")).toEqual(["Pi is 3.14 today."]);
+  });
+});
+
+describe("chunkText", () => {
+  it.each([
+    ["TTS", TTS_MAX_CHARS],
+    ["Translate", TRANSLATE_MAX_CHARS],
+  ])("keeps every chunk within the %s limit", (_, limit) => {
+    const text = prose(400);
+    const chunks = chunkText(text, limit);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(limit);
+      // Whole sentences only, so every chunk ends with one
+      expect(chunk.trimEnd()).toMatch(/here\.$/);
+    }
+    expect(chunks.join("")).toBe(text);
+  });
+
+  it("returns short text as a single chunk, and nothing for empty text", () => {
+    expect(chunkText("Hello.", TTS_MAX_CHARS)).toEqual(["Hello."]);
+    expect(chunkText("", TTS_MAX_CHARS)).toEqual([]);
+  });
+
+  it("splits a single over-long sentence at clause, then word breaks", () => {
+    const sentence = `${"alpha beta gamma, ".repeat(60)}done.`;
+    const chunks = chunkText(sentence, TTS_MAX_CHARS);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(TTS_MAX_CHARS);
+    }
+    expect(chunks.slice(0, -1).every((c) => c.endsWith(", "))).toBe(true);
+    expect(chunks.join("")).toBe(sentence);
+
+    const words = "word ".repeat(300).trim();
+    const wordChunks = chunkText(words, TTS_MAX_CHARS);
+    expect(wordChunks.slice(0, -1).every((c) => c.endsWith(" "))).toBe(true);
+    expect(wordChunks.join("")).toBe(words);
+  });
+
+  it("hard-cuts a token longer than the limit", () => {
+    const token = "x".repeat(1200);
+    expect(chunkText(token, TTS_MAX_CHARS).map((c) => c.length)).toEqual([
+      500, 500, 200,
+    ]);
+  });
+
+  it("never splits a surrogate pair", () => {
+    // 2 UTF-16 units per emoji, so an odd limit lands mid-pair
+    const emoji = "😀".repeat(400);
+    const chunks = chunkText(emoji, 301);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(301);
+      expect(chunk.length % 2).toBe(0);
+      expect([...chunk].every((c) => c === "😀")).toBe(true);
+    }
+    expect(chunks.join("")).toBe(emoji);
+  });
+
+  it("rejects a non-positive limit", () => {
+    expect(() => chunkText("Hi.", 0)).toThrow(/maxChars/);
+  });
+});
+
+describe("joinChunks", () => {
+  it.each([
+    ["prose", prose(200)],
+    ["paragraphs", `${prose(30)}\n\n${prose(30)}\n${prose(30)}`],
+    ["Hindi", "मैं घर जा रहा हूँ। ".repeat(80).trim()],
+    ["one long token", "x".repeat(1200)],
+  ])("round-trips chunked %s unchanged", (_, text) => {
+    for (const limit of [TTS_MAX_CHARS, TRANSLATE_MAX_CHARS]) {
+      const chunks = chunkText(text, limit);
+      expect(joinChunks(chunks, chunks)).toBe(text);
+    }
+  });
+
+  it("trims each result and reuses the source chunk's line breaks", () => {
+    expect(
+      joinChunks(["One.\n\n", "Two. ", "Three."], [" Uno. ", "Dos.", "Tres. "]),
+    ).toBe("Uno.\n\nDos. Tres.");
+  });
+});
@@ -0,0 +1,107 @@
+// Per-request character limits: Sarvam Translate and Bulbul v3 TTS
+export const TRANSLATE_MAX_CHARS = 2000;
+export const TTS_MAX_CHARS = 500;
+
+// Sentence end: . ? ! … and the Indic danda/double danda (plus Urdu full
+// stop), optionally followed by closing quotes/brackets, then whitespace or
+// the end of the text. Line breaks always end a sentence.
+const SENTENCE_END = /[.?!…।॥۔]+["'”’)\]]*(?=\s|$)\s*|\n\s*/g;
+const CLAUSE_BREAK = /[,;:،]\s+/g;
+const WHITESPACE = /\s+/g;
+
+/**
+ * Splits text into sentences. Each piece keeps its trailing whitespace, so
+ * joining the pieces gives back the original text exactly.
+ */
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index + match[0].length;
+    if (end > start) {
+      sentences.push(text.slice(start, end));
+      start = end;
+    }
+  }
+  if (start < text.length) sentences.push(text.slice(start));
+  return sentences;
+}
+
+// Last position at or before maxChars where a pattern match ends
+function lastBreak(text: string, pattern: RegExp, maxChars: number): number {
+  let best = 0;
+  for (const match of text.matchAll(pattern)) {
+    const end = match.index + match[0].length;
+    if (end > maxChars) break;
+    best = end;
+  }
+  return best;
+}
+
+// Cut an over-long sentence: prefer a clause break, then a word break
+function splitLongSentence(sentence: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let rest = sentence;
+  while (rest.length > maxChars) {
+    let cut =
+      lastBreak(rest, CLAUSE_BREAK, maxChars) ||
+      lastBreak(rest, WHITESPACE, maxChars);
+    if (cut < maxChars / 4) {
+      // No usable break (e.g. one huge token): hard cut, but never inside a
+      // surrogate pair
+      cut = maxChars;
+      const code = rest.charCodeAt(cut - 1);
+      if (code >= 0xd800 && code <= 0xdbff) cut--;
+    }
+    pieces.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+/**
+ * Packs whole sentences into chunks of at most maxChars, splitting a
+ * sentence only when it is longer than maxChars on its own. Chunks are exact
+ * slices of the input: nothing is dropped, duplicated or reordered.
+ */
+export function chunkText(text: string, maxChars: number): string[] {
+  if (maxChars < 1) {
+    throw new Error(`maxChars must be positive, got ${maxChars}`);
+  }
+  if (text.length <= maxChars) return text ? [text] : [];
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const sentence of splitSentences(text)) {
+    const pieces =
+      sentence.length > maxChars
+        ? splitLongSentence(sentence, maxChars)
+        : [sentence];
+    for (const piece of pieces) {
+      if (current && current.length + piece.length > maxChars) {
+        chunks.push(current);
+        current = "";
+      }
+      current += piece;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Joins per-chunk results (translations) back together, reusing the
+ * whitespace that followed each source chunk so paragraph breaks survive.
+ * A chunk hard-cut mid-token is joined to the next one without a space.
+ */
+export function joinChunks(sources: string[], results: string[]): string {
+  return results
+    .map((result, i) => {
+      if (i === results.length - 1) return result.trim();
+      const trailing = sources[i].match(/\s*$/)?.[0] ?? "";
+      if (!trailing) return result.trim();
+      return result.trim() + (trailing.replace(/[^\n]/g, "") || " ");
+    })
+    .join("");
+}
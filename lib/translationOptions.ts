@@ -0,0 +1,99 @@
+import type { VoiceGender } from "./voices";
+
+// How a translation should read. Kept free of server-only imports so the
+// page can share the choices and labels.
+
+export type TranslationTone =
+  "formal" | "modern-colloquial" | "classic-colloquial" | "code-mixed";
+
+// "native" is the target language's usual script; the others ask the model
+// to transliterate (roman) or to spell out borrowed words (fully-native,
+// spoken-native)
+export type OutputScript =
+  "native" | "roman" | "fully-native" | "spoken-native";
+
+export type NumeralFormat = "international" | "native";
+
+// What the provider needs to translate; speaker gender travels separately
+export interface TranslationStyle {
+  tone: TranslationTone;
+  script: OutputScript;
+  numerals: NumeralFormat;
+}
+
+export interface TranslationOptions extends TranslationStyle {
+  // Grammatical gender of the speaker; unset follows the TTS voice
+  speakerGender?: VoiceGender;
+}
+
+export const TONES: { value: TranslationTone; label: string }[] = [
+  { value: "formal", label: "Formal" },
+  { value: "modern-colloquial", label: "Modern colloquial" },
+  { value: "classic-colloquial", label: "Classic colloquial" },
+  { value: "code-mixed", label: "Code-mixed" },
+];
+
+export const SCRIPTS: { value: OutputScript; label: string }[] = [
+  { value: "native", label: "Native script" },
+  { value: "roman", label: "Romanized" },
+  { value: "fully-native", label: "Fully native" },
+  { value: "spoken-native", label: "Spoken form, native script" },
+];
+
+export const NUMERAL_FORMATS: { value: NumeralFormat; label: string }[] = [
+  { value: "international", label: "0-9" },
+  { value: "native", label: "Native digits" },
+];
+
+export const DEFAULT_TRANSLATION_OPTIONS: TranslationOptions = {
+  tone: "formal",
+  script: "native",
+  numerals: "international",
+};
+
+// The plain style every model supports
+export const isDefaultStyle = (style: TranslationStyle) =>
+  style.tone === DEFAULT_TRANSLATION_OPTIONS.tone &&
+  style.script === DEFAULT_TRANSLATION_OPTIONS.script &&
+  style.numerals === DEFAULT_TRANSLATION_OPTIONS.numerals;
+
+const oneOf = <T extends string>(
+  choices: { value: T }[],
+  value: unknown,
+  field: string,
+): T => {
+  const match = choices.find((c) => c.value === value);
+  if (!match) {
+    throw new Error(
+      `${field} must be one of ${choices.map((c) => c.value).join(", ")}`,
+    );
+  }
+  return match.value;
+};
+
+/**
+ * Validates translation options from a request body or form field (JSON
+ * string). Missing fields fall back to DEFAULT_TRANSLATION_OPTIONS; unknown
+ * values throw.
+ */
+export function parseTranslationOptions(input: unknown): TranslationOptions {
+  if (input === undefined || input === null || input === "") {
+    return { ...DEFAULT_TRANSLATION_OPTIONS };
+  }
+  const raw = typeof input === "string" ? JSON.parse(input) : input;
+  if (typeof raw !== "object") {
+    throw new Error("Translation options must be an object");
+  }
+
+  const selection = { ...DEFAULT_TRANSLATION_OPTIONS, ...raw };
+  const speakerGender = selection.speakerGender || undefined;
+  if (speakerGender && !["Female", "Male"].includes(speakerGender)) {
+    throw new Error("speakerGender must be Female or Male");
+  }
+  return {
+    tone: oneOf(TONES, selection.tone, "tone"),
+    script: oneOf(SCRIPTS, selection.script, "script"),
+    numerals: oneOf(NUMERAL_FORMATS, selection.numerals, "numerals"),
+    ...(speakerGender ? { speakerGender } : {}),
+  };
+}
@@ -0,0 +1,142 @@
+import { randomBytes, timingSafeEqual } from "crypto";
+import {
+  getJob,
+  type JobRecord,
+  type JobState,
+  type UploadGrant,
+} from "./jobStore";
+
+/**
+ * Keeps blob upload URLs on the server. The browser gets an opaque token
+ * bound to one job, and every chunk, status, commit or start call is
+ * checked against it before anything is sent to storage, so the chunk proxy
+ * can't be pointed at arbitrary hosts and only the uploader can start the
+ * job.
+ */
+
+// Largest block the proxy forwards (the browser sends 2MB blocks)
+export const UPLOAD_BLOCK_MAX_BYTES = 4 * 1024 * 1024;
+// 1000 x 4MB caps a single upload at ~4GB
+export const UPLOAD_MAX_BLOCKS = 1000;
+
+// Block ids are base64("block-NNNNN"), the same length for every block
+const BLOCK_ID = /^block-(\d{5})$/;
+
+const getTtlMs = () =>
+  Number(process.env.UPLOAD_TOKEN_TTL_MINUTES || 60) * 60 * 1000;
+
+// Comma-separated hostnames; "*.example.com" matches any subdomain
+const getAllowedHosts = () =>
+  (process.env.UPLOAD_ALLOWED_HOSTS || "*.blob.core.windows.net")
+    .split(",")
+    .map((h) => h.trim().toLowerCase())
+    .filter(Boolean);
+
+export class UploadAccessError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "UploadAccessError";
+  }
+}
+
+export function isAllowedUploadUrl(uploadUrl: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(uploadUrl);
+  } catch {
+    return false;
+  }
+  // The mock provider's in-memory store never leaves the process
+  if (url.protocol === "mock:") return process.env.SPEECH_PROVIDER === "mock";
+  if (url.protocol !== "https:") return false;
+  const host = url.hostname.toLowerCase();
+  return getAllowedHosts().some((allowed) =>
+    allowed.startsWith("*.")
+      ? host.endsWith(allowed.slice(1))
+      : host === allowed,
+  );
+}
+
+export function createUploadGrant(uploadUrl: string): UploadGrant {
+  if (!isAllowedUploadUrl(uploadUrl)) {
+    // The provider handed back a URL we won't proxy to
+    throw new Error(`Upload host is not allowed: ${new URL(uploadUrl).host}`);
+  }
+  return {
+    url: uploadUrl,
+    token: randomBytes(24).toString("base64url"),
+    expiresAt: new Date(Date.now() + getTtlMs()).toISOString(),
+  };
+}
+
+const sameToken = (a: string, b: string) =>
+  a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+/**
+ * Looks up the job's upload URL for a token, throwing UploadAccessError with
+ * the HTTP status to return when the token is missing, wrong or expired, or
+ * the job is not in `state` (still uploading, by default).
+ */
+export async function resolveUpload(
+  jobId: unknown,
+  token: unknown,
+  state: JobState = "created",
+): Promise<{ job: JobRecord; uploadUrl: string }> {
+  if (typeof jobId !== "string" || typeof token !== "string" || !token) {
+    throw new UploadAccessError("jobId and uploadToken are required", 400);
+  }
+  const job = await getJob(jobId).catch(() => null);
+  if (!job) {
+    throw new UploadAccessError("Upload not found", 404);
+  }
+  if (!job.upload || !sameToken(job.upload.token, token)) {
+    throw new UploadAccessError("Invalid upload token", 403);
+  }
+  if (Date.parse(job.upload.expiresAt) < Date.now()) {
+    throw new UploadAccessError("Upload token has expired", 410);
+  }
+  if (job.state !== state) {
+    throw new UploadAccessError(
+      job.state === "created"
+        ? "Upload has not been committed yet"
+        : "Upload is already complete",
+      409,
+    );
+  }
+  if (!isAllowedUploadUrl(job.upload.url)) {
+    throw new UploadAccessError("Upload host is not allowed", 403);
+  }
+  return { job, uploadUrl: job.upload.url };
+}
+
+export function validateBlockId(blockId: unknown): string {
+  const decoded =
+    typeof blockId === "string"
+      ? Buffer.from(blockId, "base64").toString("latin1")
+      : "";
+  const match = decoded.match(BLOCK_ID);
+  if (
+    !match ||
+    Buffer.from(decoded, "latin1").toString("base64") !== blockId ||
+    Number(match[1]) >= UPLOAD_MAX_BLOCKS
+  ) {
+    throw new UploadAccessError(`Invalid block id: ${String(blockId)}`, 400);
+  }
+  return blockId as string;
+}
+
+export function validateBlockList(blockIds: unknown): string[] {
+  if (!Array.isArray(blockIds) || blockIds.length === 0) {
+    throw new UploadAccessError("blockIds must be a non-empty array", 400);
+  }
+  if (blockIds.length > UPLOAD_MAX_BLOCKS) {
+    throw new UploadAccessError(
+      `Too many blocks: ${blockIds.length} (max ${UPLOAD_MAX_BLOCKS})`,
+      413,
+    );
+  }
+  return blockIds.map(validateBlockId);
+}
@@ -0,0 +1,282 @@
+import CircuitBreaker from "opossum";
+import { NextResponse } from "next/server";
+
+/**
+ * Resilience for calls to upstream services (Sarvam, and the Azure storage it
+ * hands out URLs for). Each call gets a timeout through an AbortSignal and is
+ * retried with jittered backoff on network errors, timeouts, 408, 429 and
+ * 5xx, waiting out any Retry-After. Every service has its own circuit
+ * breaker: once most recent calls fail it opens and calls fail fast with
+ * UpstreamUnavailableError until a trial call succeeds again.
+ */
+
+export type UpstreamService = "stt" | "translate" | "tts" | "batch" | "storage";
+
+export const UPSTREAM_SERVICES: UpstreamService[] = [
+  "stt",
+  "translate",
+  "tts",
+  "batch",
+  "storage",
+];
+
+// What the UI calls each service when it is degraded
+export const SERVICE_LABELS: Record<UpstreamService, string> = {
+  stt: "transcription",
+  translate: "translation",
+  tts: "speech",
+  batch: "batch transcription",
+  storage: "upload storage",
+};
+
+// A non-OK upstream response (status set) or a network failure/timeout
+export class UpstreamError extends Error {
+  constructor(
+    message: string,
+    readonly service: UpstreamService,
+    readonly status?: number,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "UpstreamError";
+  }
+
+  // Whether the same request could succeed if sent again
+  get retryable(): boolean {
+    return (
+      this.status === undefined ||
+      this.status === 408 ||
+      this.status === 429 ||
+      this.status >= 500
+    );
+  }
+}
+
+// The service's breaker is open, so the call was not attempted
+export class UpstreamUnavailableError extends Error {
+  constructor(
+    readonly service: UpstreamService,
+    readonly retryAfterMs: number,
+  ) {
+    super(`The ${SERVICE_LABELS[service]} service is temporarily unavailable`);
+    this.name = "UpstreamUnavailableError";
+  }
+}
+
+export interface CallOptions {
+  // Non-idempotent calls only retry when the request was refused outright
+  idempotent?: boolean;
+  timeoutMs?: number;
+}
+
+export interface BreakerState {
+  service: UpstreamService;
+  label: string;
+  state: "closed" | "open" | "half-open";
+  failures: number;
+  rejects: number;
+  // While open: when a trial call will be let through again
+  retryAt?: string;
+}
+
+// Generous per-service defaults: batch uploads move whole files
+const DEFAULT_TIMEOUTS_MS: Record<UpstreamService, number> = {
+  stt: 60_000,
+  translate: 20_000,
+  tts: 30_000,
+  batch: 20_000,
+  storage: 120_000,
+};
+
+const getTimeoutMs = (service: UpstreamService) =>
+  Number(
+    process.env[`UPSTREAM_TIMEOUT_MS_${service.toUpperCase()}`] ||
+      process.env.UPSTREAM_TIMEOUT_MS ||
+      DEFAULT_TIMEOUTS_MS[service],
+  );
+const getMaxAttempts = () => Number(process.env.UPSTREAM_MAX_ATTEMPTS || 4);
+const getBaseDelayMs = () => Number(process.env.UPSTREAM_RETRY_BASE_MS || 500);
+// A Retry-After longer than this fails the call instead of holding it open
+const getMaxDelayMs = () =>
+  Number(process.env.UPSTREAM_RETRY_MAX_DELAY_MS || 10_000);
+const getResetMs = () => Number(process.env.BREAKER_RESET_MS || 30_000);
+
+/** Retry-After as milliseconds: delta-seconds or an HTTP date. */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+type Operation = (signal: AbortSignal) => Promise<unknown>;
+
+// Survive module reloads in `next dev`
+const globalForBreakers = globalThis as unknown as {
+  upstreamBreakers?: Map<
+    UpstreamService,
+    CircuitBreaker<[Operation, AbortSignal], unknown>
+  >;
+  breakerOpenedAt?: Map<UpstreamService, number>;
+};
+
+const openedAt = () => (globalForBreakers.breakerOpenedAt ??= new Map());
+
+// Milliseconds until an open breaker lets a trial call through
+const msUntilTrial = (service: UpstreamService) =>
+  Math.max(0, (openedAt().get(service) ?? 0) + getResetMs() - Date.now());
+
+function getBreaker(service: UpstreamService) {
+  const breakers = (globalForBreakers.upstreamBreakers ??= new Map());
+  let breaker = breakers.get(service);
+  if (!breaker) {
+    breaker = new CircuitBreaker(
+      (operation: Operation, signal: AbortSignal) => operation(signal),
+      {
+        name: service,
+        // Timeouts are enforced by the AbortSignal, which also stops the fetch
+        timeout: false,
+        errorThresholdPercentage: Number(
+          process.env.BREAKER_ERROR_PERCENT || 50,
+        ),
+        resetTimeout: getResetMs(),
+        volumeThreshold: Number(process.env.BREAKER_VOLUME_THRESHOLD || 5),
+        // Bad requests say nothing about the service's health
+        errorFilter: (err) => err instanceof UpstreamError && !err.retryable,
+      },
+    );
+    breaker.on("open", () => {
+      openedAt().set(service, Date.now());
+      console.error(`[Upstream] ${service} circuit opened`);
+    });
+    breaker.on("halfOpen", () =>
+      console.log(`[Upstream] ${service} circuit half-open, trying a call`),
+    );
+    breaker.on("close", () =>
+      console.log(`[Upstream] ${service} circuit closed`),
+    );
+    breakers.set(service, breaker);
+  }
+  return breaker;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Runs one upstream operation through the service's breaker, with a timeout
+ * per attempt and retries on transient failures. The operation must pass the
+ * signal to fetch and throw UpstreamError for non-OK responses.
+ */
+export async function callUpstream<T>(
+  service: UpstreamService,
+  operation: (signal: AbortSignal) => Promise<T>,
+  { idempotent = true, timeoutMs = getTimeoutMs(service) }: CallOptions = {},
+): Promise<T> {
+  const breaker = getBreaker(service);
+  const maxAttempts = getMaxAttempts();
+
+  // Network failures and timeouts become retryable UpstreamErrors
+  const run = async (signal: AbortSignal) => {
+    try {
+      return await operation(signal);
+    } catch (err: unknown) {
+      if (err instanceof UpstreamError) throw err;
+      // fetch rejects with TimeoutError when the signal fires
+      const timedOut = err instanceof Error && err.name === "TimeoutError";
+      throw new UpstreamError(
+        timedOut
+          ? `${SERVICE_LABELS[service]} request timed out after ${timeoutMs}ms`
+          : `${SERVICE_LABELS[service]} request failed: ${err instanceof Error ? err.message : String(err)}`,
+        service,
+      );
+    }
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    let error: UpstreamError;
+    try {
+      return (await breaker.fire(run, AbortSignal.timeout(timeoutMs))) as T;
+    } catch (err: unknown) {
+      if ((err as { code?: string }).code === "EOPENBREAKER") {
+        throw new UpstreamUnavailableError(service, msUntilTrial(service));
+      }
+      if (!(err instanceof UpstreamError)) throw err;
+      error = err;
+    }
+
+    // A non-idempotent request that got an answer may already have run
+    const refused = error.status === 429 || error.status === 503;
+    if (!error.retryable || (!idempotent && !refused)) throw error;
+    if (attempt >= maxAttempts) throw error;
+
+    const backoff = getBaseDelayMs() * 2 ** (attempt - 1);
+    const delay = error.retryAfterMs ?? backoff / 2 + Math.random() * backoff;
+    if (delay > getMaxDelayMs()) throw error;
+    console.warn(
+      `[Upstream] ${service} attempt ${attempt} failed (${error.message}), retrying in ${Math.round(delay)}ms`,
+    );
+    await sleep(delay);
+  }
+}
+
+export function getBreakerStates(): BreakerState[] {
+  return UPSTREAM_SERVICES.map((service) => {
+    const breaker = getBreaker(service);
+    const { failures, rejects } = breaker.stats;
+    return {
+      service,
+      label: SERVICE_LABELS[service],
+      state: breaker.opened
+        ? "open"
+        : breaker.halfOpen
+          ? "half-open"
+          : "closed",
+      failures,
+      rejects,
+      ...(breaker.opened
+        ? {
+            retryAt: new Date(Date.now() + msUntilTrial(service)).toISOString(),
+          }
+        : {}),
+    };
+  });
+}
+
+const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+/**
+ * Route helper: 503 when the service's breaker is open, 502 when retries ran
+ * out on a transient failure. Both name the service so the UI can say which
+ * part is degraded. Returns null for any other error.
+ */
+export function upstreamErrorResponse(err: unknown): NextResponse | null {
+  if (err instanceof UpstreamUnavailableError) {
+    return NextResponse.json(
+      {
+        error: `${capitalize(SERVICE_LABELS[err.service])} service degraded`,
+        details: err.message,
+        service: err.service,
+      },
+      {
+        status: 503,
+        headers: {
+          "Retry-After": String(
+            Math.max(1, Math.ceil(err.retryAfterMs / 1000)),
+          ),
+        },
+      },
+    );
+  }
+  if (err instanceof UpstreamError && err.retryable) {
+    return NextResponse.json(
+      {
+        error: `${capitalize(SERVICE_LABELS[err.service])} service is not responding`,
+        details: err.message,
+        service: err.service,
+      },
+      { status: 502 },
+    );
+  }
+  return null;
+}
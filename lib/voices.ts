@@ -0,0 +1,136 @@
+// Bulbul voice catalog and the voice options a client can pick. Kept free of
+// server-only imports so the picker can share the types and limits.
+
+export type VoiceGender = "Female" | "Male";
+
+export interface VoiceInfo {
+  name: string;
+  gender: VoiceGender;
+}
+
+export const VOICES: VoiceInfo[] = [
+  { name: "anushka", gender: "Female" },
+  { name: "abhilash", gender: "Male" },
+  { name: "manisha", gender: "Female" },
+  { name: "vidya", gender: "Female" },
+  { name: "arya", gender: "Female" },
+  { name: "karun", gender: "Male" },
+  { name: "hitesh", gender: "Male" },
+  { name: "aditya", gender: "Male" },
+  { name: "ritu", gender: "Female" },
+  { name: "priya", gender: "Female" },
+  { name: "neha", gender: "Female" },
+  { name: "rahul", gender: "Male" },
+  { name: "pooja", gender: "Female" },
+  { name: "rohan", gender: "Male" },
+  { name: "simran", gender: "Female" },
+  { name: "kavya", gender: "Female" },
+  { name: "amit", gender: "Male" },
+  { name: "dev", gender: "Male" },
+  { name: "ishita", gender: "Female" },
+  { name: "shreya", gender: "Female" },
+  { name: "ratan", gender: "Male" },
+  { name: "varun", gender: "Male" },
+  { name: "manan", gender: "Male" },
+  { name: "sumit", gender: "Male" },
+  { name: "roopa", gender: "Female" },
+  { name: "kabir", gender: "Male" },
+  { name: "aayan", gender: "Male" },
+  { name: "shubh", gender: "Male" },
+  { name: "ashutosh", gender: "Male" },
+  { name: "advait", gender: "Male" },
+  { name: "amelia", gender: "Female" },
+  { name: "sophia", gender: "Female" },
+  { name: "anand", gender: "Male" },
+  { name: "tanya", gender: "Female" },
+  { name: "tarun", gender: "Male" },
+  { name: "sunny", gender: "Male" },
+  { name: "mani", gender: "Male" },
+  { name: "gokul", gender: "Male" },
+  { name: "vijay", gender: "Male" },
+  { name: "shruti", gender: "Female" },
+  { name: "suhani", gender: "Female" },
+  { name: "mohit", gender: "Male" },
+  { name: "kavitha", gender: "Female" },
+  { name: "rehan", gender: "Male" },
+  { name: "soham", gender: "Male" },
+  { name: "rupali", gender: "Female" },
+];
+
+// Picking this speaker asks for a random voice, seeded by the job id
+export const RANDOM_VOICE = "random";
+
+export const SAMPLE_RATES = [8000, 16000, 22050, 24000];
+
+// Bulbul model used for TTS. Pitch and loudness are only accepted by v2, so
+// they are neither sent nor offered in the picker for other models.
+export const TTS_MODEL = "bulbul:v3";
+const PITCH_LOUDNESS_MODELS = new Set(["bulbul:v2"]);
+export const supportsPitchAndLoudness = (model: string) =>
+  PITCH_LOUDNESS_MODELS.has(model);
+
+export const VOICE_LIMITS = {
+  pace: { min: 0.5, max: 2, step: 0.05 },
+  pitch: { min: -0.75, max: 0.75, step: 0.05 },
+  loudness: { min: 0.3, max: 3, step: 0.1 },
+};
+
+export interface VoiceSelection {
+  speaker: string; // a VOICES name or RANDOM_VOICE
+  pace: number;
+  pitch: number;
+  loudness: number;
+  sampleRate: number;
+}
+
+export const DEFAULT_VOICE: VoiceSelection = {
+  speaker: "priya",
+  pace: 1,
+  pitch: 0,
+  loudness: 1,
+  sampleRate: 8000,
+};
+
+export function findVoice(name: string): VoiceInfo | undefined {
+  return VOICES.find((v) => v.name === name);
+}
+
+/**
+ * Validates a voice selection from a request body or form field (JSON
+ * string). Missing fields fall back to DEFAULT_VOICE; unknown speakers and
+ * out-of-range values throw.
+ */
+export function parseVoiceSelection(input: unknown): VoiceSelection {
+  if (input === undefined || input === null || input === "") {
+    return { ...DEFAULT_VOICE };
+  }
+  const raw = typeof input === "string" ? JSON.parse(input) : input;
+  if (typeof raw !== "object") {
+    throw new Error("Voice must be an object");
+  }
+
+  const selection = { ...DEFAULT_VOICE, ...raw } as VoiceSelection;
+  if (selection.speaker !== RANDOM_VOICE && !findVoice(selection.speaker)) {
+    throw new Error(`Unknown speaker: ${selection.speaker}`);
+  }
+  for (const key of ["pace", "pitch", "loudness"] as const) {
+    const value = Number(selection[key]);
+    const { min, max } = VOICE_LIMITS[key];
+    if (!Number.isFinite(value) || value < min || value > max) {
+      throw new Error(`${key} must be between ${min} and ${max}`);
+    }
+    selection[key] = value;
+  }
+  selection.sampleRate = Number(selection.sampleRate);
+  if (!SAMPLE_RATES.includes(selection.sampleRate)) {
+    throw new Error(`sampleRate must be one of ${SAMPLE_RATES.join(", ")}`);
+  }
+
+  return {
+    speaker: selection.speaker,
+    pace: selection.pace,
+    pitch: selection.pitch,
+    loudness: selection.loudness,
+    sampleRate: selection.sampleRate,
+  };
+}
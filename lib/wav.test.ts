@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+import {
+  decodeSamples,
+  encodeWav,
+  mergeWav,
+  parseWav,
+  type WavFormat,
+} from "./wav";
+
+const pcm16 = (sampleRate: number, channels = 1): WavFormat => ({
+  audioFormat: 1,
+  channels,
+  sampleRate,
+  bitsPerSample: 16,
+});
+
+// A RIFF file with exactly these chunks, odd sizes padded to a word
+function riff(chunks: [string, Buffer][]): Buffer {
+  const body = chunks.flatMap(([id, payload]) => {
+    const header = Buffer.alloc(8);
+    header.write(id, 0, "ascii");
+    header.writeUInt32LE(payload.length, 4);
+    return [header, payload, Buffer.alloc(payload.length % 2)];
+  });
+  const head = Buffer.alloc(12);
+  head.write("RIFF", 0, "ascii");
+  head.writeUInt32LE(4 + body.reduce((n, b) => n + b.length, 0), 4);
+  head.write("WAVE", 8, "ascii");
+  return Buffer.concat([head, ...body]);
+}
+
+function fmt(format: WavFormat, extensible = false): Buffer {
+  const chunk = Buffer.alloc(extensible ? 40 : 16);
+  const blockAlign = (format.bitsPerSample / 8) * format.channels;
+  chunk.writeUInt16LE(extensible ? 0xfffe : format.audioFormat, 0);
+  chunk.writeUInt16LE(format.channels, 2);
+  chunk.writeUInt32LE(format.sampleRate, 4);
+  chunk.writeUInt32LE(format.sampleRate * blockAlign, 8);
+  chunk.writeUInt16LE(blockAlign, 12);
+  chunk.writeUInt16LE(format.bitsPerSample, 14);
+  if (extensible) {
+    chunk.writeUInt16LE(22, 16); // cbSize
+    chunk.writeUInt16LE(format.bitsPerSample, 18); // valid bits
+    chunk.writeUInt32LE((1 << format.channels) - 1, 20); // channel mask
+    // SubFormat GUID, whose first two bytes are the real format code
+    chunk.writeUInt16LE(format.audioFormat, 24);
+  }
+  return chunk;
+}
+
+const samples16 = (...values: number[]) => {
+  const data = Buffer.alloc(values.length * 2);
+  values.forEach((v, i) => data.writeInt16LE(v, i * 2));
+  return data;
+};
+
+describe("parseWav", () => {
+  it("skips LIST and fact chunks around the audio", () => {
+    const data = samples16(1, -2, 3, -4);
+    const wav = riff([
+      ["LIST", Buffer.from("INFOISFT\x04\x00\x00\x00tts\x00", "latin1")],
+      ["fmt ", fmt(pcm16(22050))],
+      ["fact", Buffer.alloc(4)],
+      ["data", data],
+      ["LIST", Buffer.alloc(10)],
+    ]);
+    const parsed = parseWav(wav);
+    expect(parsed.format).toEqual(pcm16(22050));
+    expect(parsed.data).toEqual(data);
+  });
+
+  it("steps over the pad byte after an odd-sized chunk", () => {
+    const data = samples16(100, 200);
+    const parsed = parseWav(
+      riff([
+        ["fmt ", fmt(pcm16(16000))],
+        ["junk", Buffer.from([1, 2, 3])],
+        ["data", data],
+      ]),
+    );
+    expect(parsed.data).toEqual(data);
+  });
+
+  it("reads the format code from a WAVE_FORMAT_EXTENSIBLE SubFormat", () => {
+    const float: WavFormat = {
+      audioFormat: 3,
+      channels: 2,
+      sampleRate: 48000,
+      bitsPerSample: 32,
+    };
+    const data = Buffer.alloc(16);
+    data.writeFloatLE(0.5, 0);
+    data.writeFloatLE(-0.25, 4);
+    const parsed = parseWav(
+      riff([
+        ["fmt ", fmt(float, true)],
+        ["data", data],
+      ]),
+    );
+    expect(parsed.format).toEqual(float);
+    const [left, right] = decodeSamples(parsed);
+    expect(left[0]).toBe(0.5);
+    expect(right[0]).toBe(-0.25);
+  });
+
+  it("takes the rest of the file for a streamed data size of 0", () => {
+    const data = samples16(7, 8, 9);
+    const wav = riff([
+      ["fmt ", fmt(pcm16(8000))],
+      ["data", data],
+    ]);
+    wav.writeUInt32LE(0, wav.length - data.length - 4);
+    expect(parseWav(wav).data).toEqual(data);
+  });
+
+  it("rejects files it cannot read", () => {
+    expect(() => parseWav(Buffer.from("not a wav at all"))).toThrow(
+      /Not a RIFF/,
+    );
+    expect(() => parseWav(riff([["data", samples16(1)]]))).toThrow(
+      /no fmt chunk/,
+    );
+    expect(() => parseWav(riff([["fmt ", fmt(pcm16(8000))]]))).toThrow(
+      /no data chunk/,
+    );
+    expect(() =>
+      parseWav(
+        riff([
+          ["fmt ", fmt({ ...pcm16(8000), audioFormat: 2 })],
+          ["data", samples16(1)],
+        ]),
+      ),
+    ).toThrow(/Unsupported WAV format/);
+  });
+});
+
+describe("mergeWav", () => {
+  const wavOf = (format: WavFormat, frames: number) =>
+    encodeWav({
+      format,
+      data: Buffer.alloc(frames * (format.bitsPerSample / 8) * format.channels),
+    });
+
+  it("concatenates same-format chunks with silence between them", () => {
+    const merged = parseWav(
+      mergeWav([wavOf(pcm16(16000), 100), wavOf(pcm16(16000), 50)], {
+        silenceMs: 10,
+      }),
+    );
+    expect(merged.format).toEqual(pcm16(16000));
+    // 100 + 160 frames of silence + 50
+    expect(merged.data.length).toBe((100 + 160 + 50) * 2);
+  });
+
+  it("resamples a chunk in another format to the first chunk's", () => {
+    const merged = parseWav(
+      mergeWav([wavOf(pcm16(16000), 100), wavOf(pcm16(8000, 2), 100)]),
+    );
+    expect(merged.format).toEqual(pcm16(16000));
+    // 100 frames at 8 kHz stereo become 200 at 16 kHz mono
+    expect(merged.data.length).toBe((100 + 200) * 2);
+  });
+
+  it("names the mismatched chunk when asked to reject", () => {
+    expect(() =>
+      mergeWav([wavOf(pcm16(16000), 10), wavOf(pcm16(24000), 10)], {
+        onMismatch: "reject",
+      }),
+    ).toThrow("Audio chunk 2 is 24000 Hz, 1 ch, 16-bit PCM");
+  });
+
+  it("names an unparseable chunk", () => {
+    expect(() =>
+      mergeWav([wavOf(pcm16(16000), 10), Buffer.from("garbage")]),
+    ).toThrow(/^Audio chunk 2 of 2: Not a RIFF/);
+  });
+});
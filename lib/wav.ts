@@ -0,0 +1,284 @@
+/**
+ * RIFF/WAVE helpers for stitching TTS chunks together. Parses real chunk
+ * layouts (LIST, fact, odd-sized padding, WAVE_FORMAT_EXTENSIBLE) instead of
+ * assuming a 44-byte header, and throws on anything it cannot merge rather
+ * than dropping audio.
+ */
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+export interface WavFormat {
+  audioFormat: number; // 1 = PCM, 3 = IEEE float
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+}
+
+export interface WavAudio {
+  format: WavFormat;
+  data: Buffer; // interleaved samples
+}
+
+export interface MergeOptions {
+  // Silence inserted between consecutive chunks
+  silenceMs?: number;
+  // What to do when a chunk's format differs from the first chunk's
+  onMismatch?: "resample" | "reject";
+}
+
+const describe = (f: WavFormat) =>
+  `${f.sampleRate} Hz, ${f.channels} ch, ${f.bitsPerSample}-bit ${f.audioFormat === WAVE_FORMAT_IEEE_FLOAT ? "float" : "PCM"}`;
+
+const sameFormat = (a: WavFormat, b: WavFormat) =>
+  a.audioFormat === b.audioFormat &&
+  a.channels === b.channels &&
+  a.sampleRate === b.sampleRate &&
+  a.bitsPerSample === b.bitsPerSample;
+
+const bytesPerFrame = (f: WavFormat) => (f.bitsPerSample / 8) * f.channels;
+
+export function parseWav(buffer: Buffer): WavAudio {
+  if (
+    buffer.length < 12 ||
+    buffer.toString("ascii", 0, 4) !== "RIFF" ||
+    buffer.toString("ascii", 8, 12) !== "WAVE"
+  ) {
+    throw new Error("Not a RIFF/WAVE file");
+  }
+
+  let format: WavFormat | undefined;
+  let data: Buffer | undefined;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString("ascii", offset, offset + 4);
+    const declared = buffer.readUInt32LE(offset + 4);
+    const start = offset + 8;
+    const remaining = buffer.length - start;
+    // Streamed WAVs may leave the data size at 0 or 0xFFFFFFFF: take the rest
+    const size =
+      id === "data" && declared === 0
+        ? remaining
+        : Math.min(declared, remaining);
+
+    if (id === "fmt ") {
+      if (size < 16) throw new Error("WAV fmt chunk is too short");
+      let audioFormat = buffer.readUInt16LE(start);
+      if (audioFormat === WAVE_FORMAT_EXTENSIBLE && size >= 26) {
+        // The real format code is the first two bytes of the SubFormat GUID
+        audioFormat = buffer.readUInt16LE(start + 24);
+      }
+      format = {
+        audioFormat,
+        channels: buffer.readUInt16LE(start + 2),
+        sampleRate: buffer.readUInt32LE(start + 4),
+        bitsPerSample: buffer.readUInt16LE(start + 14),
+      };
+    } else if (id === "data") {
+      data = buffer.subarray(start, start + size);
+    }
+    // Chunks are word aligned: odd sizes carry one pad byte
+    offset = start + size + (size % 2);
+  }
+
+  if (!format) throw new Error("WAV file has no fmt chunk");
+  if (!data) throw new Error("WAV file has no data chunk");
+
+  const { audioFormat, bitsPerSample, channels } = format;
+  const supported =
+    (audioFormat === WAVE_FORMAT_PCM &&
+      [8, 16, 24, 32].includes(bitsPerSample)) ||
+    (audioFormat === WAVE_FORMAT_IEEE_FLOAT && bitsPerSample === 32);
+  if (!supported || channels < 1) {
+    throw new Error(`Unsupported WAV format: ${describe(format)}`);
+  }
+
+  // Drop a trailing partial frame so sample math stays aligned
+  const frameBytes = bytesPerFrame(format);
+  return {
+    format,
+    data: data.subarray(0, data.length - (data.length % frameBytes)),
+  };
+}
+
+// Canonical 44-byte header: fmt then data, nothing else
+export function encodeWav({ format, data }: WavAudio): Buffer {
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(format.audioFormat, 20);
+  header.writeUInt16LE(format.channels, 22);
+  header.writeUInt32LE(format.sampleRate, 24);
+  header.writeUInt32LE(format.sampleRate * bytesPerFrame(format), 28);
+  header.writeUInt16LE(bytesPerFrame(format), 32);
+  header.writeUInt16LE(format.bitsPerSample, 34);
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
+
+// Decode to one Float32Array per channel, samples in [-1, 1]
+export function decodeSamples({ format, data }: WavAudio): Float32Array[] {
+  const bytes = format.bitsPerSample / 8;
+  const frames = data.length / bytesPerFrame(format);
+  const channels = Array.from(
+    { length: format.channels },
+    () => new Float32Array(frames),
+  );
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < format.channels; c++) {
+      const at = (i * format.channels + c) * bytes;
+      let value: number;
+      if (format.audioFormat === WAVE_FORMAT_IEEE_FLOAT) {
+        value = data.readFloatLE(at);
+      } else if (bytes === 1) {
+        value = (data.readUInt8(at) - 128) / 128;
+      } else if (bytes === 2) {
+        value = data.readInt16LE(at) / 32768;
+      } else if (bytes === 3) {
+        value = data.readIntLE(at, 3) / 8388608;
+      } else {
+        value = data.readInt32LE(at) / 2147483648;
+      }
+      channels[c][i] = value;
+    }
+  }
+  return channels;
+}
+
+export function encodeSamples(
+  channels: Float32Array[],
+  format: WavFormat,
+): Buffer {
+  const bytes = format.bitsPerSample / 8;
+  const frames = channels[0]?.length ?? 0;
+  const data = Buffer.alloc(frames * bytesPerFrame(format));
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < format.channels; c++) {
+      const value = Math.max(-1, Math.min(1, channels[c][i]));
+      const at = (i * format.channels + c) * bytes;
+      if (format.audioFormat === WAVE_FORMAT_IEEE_FLOAT) {
+        data.writeFloatLE(value, at);
+      } else if (bytes === 1) {
+        data.writeUInt8(Math.round(value * 127) + 128, at);
+      } else if (bytes === 2) {
+        data.writeInt16LE(Math.round(value * 32767), at);
+      } else if (bytes === 3) {
+        data.writeIntLE(Math.round(value * 8388607), at, 3);
+      } else {
+        data.writeInt32LE(Math.round(value * 2147483647), at);
+      }
+    }
+  }
+  return data;
+}
+
+// Linear interpolation is plenty for speech going between 8-48 kHz
+function resampleChannel(
+  samples: Float32Array,
+  fromRate: number,
+  toRate: number,
+): Float32Array {
+  if (fromRate === toRate || samples.length === 0) return samples;
+  const length = Math.max(1, Math.round((samples.length * toRate) / fromRate));
+  const out = new Float32Array(length);
+  const step = fromRate / toRate;
+  for (let i = 0; i < length; i++) {
+    const pos = i * step;
+    const left = Math.min(Math.floor(pos), samples.length - 1);
+    const right = Math.min(left + 1, samples.length - 1);
+    out[i] = samples[left] + (samples[right] - samples[left]) * (pos - left);
+  }
+  return out;
+}
+
+/**
+ * Converts audio to another format: sample rate, channel count (mono is
+ * mixed down or duplicated up) and sample encoding.
+ */
+export function convertWav(audio: WavAudio, target: WavFormat): WavAudio {
+  if (sameFormat(audio.format, target)) return audio;
+
+  const decoded = decodeSamples(audio);
+  const frames = decoded[0].length;
+  const mono = new Float32Array(frames);
+  for (const channel of decoded) {
+    for (let i = 0; i < frames; i++) mono[i] += channel[i] / decoded.length;
+  }
+
+  const channels = Array.from({ length: target.channels }, (_, c) =>
+    resampleChannel(
+      decoded.length === target.channels ? decoded[c] : mono,
+      audio.format.sampleRate,
+      target.sampleRate,
+    ),
+  );
+  return { format: target, data: encodeSamples(channels, target) };
+}
+
+export function silence(format: WavFormat, ms: number): Buffer {
+  const frames = Math.round((format.sampleRate * Math.max(0, ms)) / 1000);
+  const data = Buffer.alloc(frames * bytesPerFrame(format));
+  // 8-bit PCM is unsigned, so its silence is 128 rather than 0
+  if (format.audioFormat === WAVE_FORMAT_PCM && format.bitsPerSample === 8) {
+    data.fill(128);
+  }
+  return data;
+}
+
+/**
+ * Concatenates WAV files into one, in the first file's format. Chunks in a
+ * different format are resampled/converted, or rejected with an error naming
+ * the chunk when onMismatch is "reject". Unparseable chunks always throw.
+ */
+export function mergeWav(
+  buffers: Buffer[],
+  options: MergeOptions = {},
+): Buffer {
+  if (buffers.length === 0) {
+    throw new Error("No audio chunks to merge");
+  }
+  const { silenceMs = 0, onMismatch = "resample" } = options;
+
+  const parsed = buffers.map((buffer, i) => {
+    try {
+      return parseWav(buffer);
+    } catch (err: unknown) {
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new Error(`Audio chunk ${i + 1} of ${buffers.length}: ${reason}`);
+    }
+  });
+
+  const format = parsed[0].format;
+  const gap = silence(format, silenceMs);
+  const parts: Buffer[] = [];
+  parsed.forEach((audio, i) => {
+    if (!sameFormat(audio.format, format)) {
+      if (onMismatch === "reject") {
+        throw new Error(
+          `Audio chunk ${i + 1} is ${describe(audio.format)}, expected ${describe(format)}`,
+        );
+      }
+      audio = convertWav(audio, format);
+    }
+    if (i > 0 && gap.length > 0) parts.push(gap);
+    parts.push(audio.data);
+  });
+
+  return encodeWav({ format, data: Buffer.concat(parts) });
+}
+
+// Base64 in, base64 out, for TTS responses
+export function mergeWavBase64(
+  base64Array: string[],
+  options?: MergeOptions,
+): string {
+  return mergeWav(
+    base64Array.map((b64) => Buffer.from(b64, "base64")),
+    options,
+  ).toString("base64");
+}
@@ -0,0 +1,286 @@
+/**
+ * Custom server: Next.js plus a WebSocket endpoint for live translation.
+ *
+ * The socket only buffers audio and relays it to /api/live/segment, so all
+ * speech logic stays in the Next.js app. Protocol: lib/liveProtocol.ts.
+ *
+ *   npm run server   (NODE_ENV=production after `npm run build`)
+ */
+/* eslint-disable @typescript-eslint/no-require-imports */
+const { randomBytes, randomUUID } = require("crypto");
+const { createServer, STATUS_CODES } = require("http");
+const next = require("next");
+const { WebSocketServer } = require("ws");
+
+const dev = process.env.NODE_ENV !== "production";
+const port = parseInt(process.env.PORT || "3000", 10);
+const LIVE_PATH = "/api/live";
+const SEGMENT_URL = `http://127.0.0.1:${port}/api/live/segment`;
+const SESSION_URL = `http://127.0.0.1:${port}/api/auth/session?scope=translate`;
+
+// How often to send the growing segment for a partial transcript
+const PARTIAL_INTERVAL_MS = 2500;
+// Sarvam's sync STT rejects audio over 30s, cap segments well below that
+const MAX_SEGMENT_BYTES = 512 * 1024;
+const MAX_FRAME_BYTES = 256 * 1024;
+
+// Proves a segment request came through this relay; partials are uncharged
+// STT, so /api/live/segment only serves them to requests carrying it. Set
+// before Next.js starts so the route (same process) can read it.
+process.env.LIVE_RELAY_SECRET ||= randomBytes(32).toString("hex");
+
+const app = next({ dev, port });
+const handle = app.getRequestHandler();
+
+// The caller's credentials, checked on upgrade and forwarded with every
+// relayed segment so the API routes apply the same auth and scopes
+function authHeaders(req) {
+  const headers = {};
+  for (const name of ["cookie", "authorization", "x-api-key"]) {
+    if (req.headers[name]) headers[name] = req.headers[name];
+  }
+  return headers;
+}
+
+async function postSegment(audio, mimeType, fields, headers) {
+  const formData = new FormData();
+  formData.append("audio", new Blob([audio], { type: mimeType }), "segment");
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) formData.append(key, value);
+  }
+  return fetch(SEGMENT_URL, {
+    method: "POST",
+    body: formData,
+    headers: { ...headers, "x-live-relay": process.env.LIVE_RELAY_SECRET },
+  });
+}
+
+// Yield parsed NDJSON lines from a streamed fetch response body
+async function* readLines(body) {
+  const decoder = new TextDecoder();
+  let pending = "";
+  for await (const chunk of body) {
+    pending += decoder.decode(chunk, { stream: true });
+    let newline;
+    while ((newline = pending.indexOf("\n")) >= 0) {
+      const line = pending.slice(0, newline).trim();
+      pending = pending.slice(newline + 1);
+      if (line) yield JSON.parse(line);
+    }
+  }
+  if (pending.trim()) yield JSON.parse(pending);
+}
+
+function handleLiveSession(ws, req) {
+  const headers = authHeaders(req);
+  // { id, targetLanguage, sourceLanguage, mimeType, voice, glossaryId,
+  //   translationOptions }
+  let session = null;
+  let frames = [];
+  let frameBytes = 0;
+  let segment = 0;
+  let partialBytes = 0;
+  let partialInFlight = false;
+  // Set when a segment hit MAX_SEGMENT_BYTES: the rest of that recording has
+  // no WebM header, so it is dropped until the client's segment_end
+  let discarding = false;
+  // Finalized segments are processed one at a time to keep output in order
+  let queue = Promise.resolve();
+
+  const send = (message) => {
+    if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(message));
+  };
+
+  const requestPartial = async () => {
+    if (!session || partialInFlight || frameBytes === partialBytes) return;
+    partialInFlight = true;
+    partialBytes = frameBytes;
+    const current = segment;
+    try {
+      const res = await postSegment(
+        Buffer.concat(frames),
+        session.mimeType,
+        { mode: "partial", sourceLanguage: session.sourceLanguage },
+        headers,
+      );
+      const data = await res.json();
+      // Drop late partials for a segment that has already been finalized
+      if (res.ok && current === segment && data.text) {
+        send({ type: "partial", segment: current, text: data.text });
+      }
+    } catch (err) {
+      console.error("Live partial failed:", err.message);
+    } finally {
+      partialInFlight = false;
+    }
+  };
+
+  const processSegment = async (id, audio, current) => {
+    try {
+      const res = await postSegment(
+        audio,
+        current.mimeType,
+        {
+          mode: "final",
+          targetLanguage: current.targetLanguage,
+          sourceLanguage: current.sourceLanguage,
+          // The session id seeds a random voice, keeping it for the session
+          sessionId: current.id,
+          voice: current.voice && JSON.stringify(current.voice),
+          glossaryId: current.glossaryId,
+          translationOptions:
+            current.translationOptions &&
+            JSON.stringify(current.translationOptions),
+        },
+        headers,
+      );
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.details || data.error || res.statusText);
+      }
+      for await (const line of readLines(res.body)) {
+        if (line.type === "transcript") {
+          send({
+            type: "transcript",
+            segment: id,
+            text: line.text,
+            languageCode: line.languageCode,
+            detectedLanguage: line.detectedLanguage,
+            languageWarning: line.languageWarning,
+          });
+        } else {
+          send({ ...line, segment: id });
+        }
+      }
+    } catch (err) {
+      send({ type: "error", segment: id, message: err.message });
+    } finally {
+      send({ type: "segment_done", segment: id });
+    }
+  };
+
+  const finalizeSegment = () => {
+    if (!session || frameBytes === 0) return;
+    const audio = Buffer.concat(frames);
+    const id = segment++;
+    frames = [];
+    frameBytes = 0;
+    partialBytes = 0;
+    const current = session;
+    queue = queue.then(() => processSegment(id, audio, current));
+  };
+
+  const partialTimer = setInterval(requestPartial, PARTIAL_INTERVAL_MS);
+
+  ws.on("message", (data, isBinary) => {
+    if (isBinary) {
+      if (!session) {
+        send({ type: "error", message: "Send a start message first" });
+        return;
+      }
+      if (discarding) return;
+      frames.push(Buffer.from(data));
+      frameBytes += data.length;
+      if (frameBytes > MAX_SEGMENT_BYTES) {
+        send({
+          type: "error",
+          segment,
+          message: "Segment too long without a pause, it was cut short",
+        });
+        send({ type: "segment_full", segment });
+        discarding = true;
+        finalizeSegment();
+      }
+      return;
+    }
+
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      send({ type: "error", message: "Invalid JSON message" });
+      return;
+    }
+
+    if (message.type === "start") {
+      if (!message.targetLanguage) {
+        send({ type: "error", message: "No target language provided" });
+        return;
+      }
+      session = {
+        id: randomUUID(),
+        targetLanguage: message.targetLanguage,
+        sourceLanguage: message.sourceLanguage,
+        mimeType: message.mimeType || "audio/webm",
+        voice: message.voice,
+        glossaryId: message.glossaryId,
+        translationOptions: message.translationOptions,
+      };
+      send({ type: "ready" });
+    } else if (message.type === "segment_end") {
+      if (discarding) {
+        discarding = false;
+        return;
+      }
+      finalizeSegment();
+    } else if (message.type === "stop") {
+      finalizeSegment();
+      queue.then(() => ws.close(1000, "Session complete"));
+    }
+  });
+
+  // Oversized or malformed frames end up here; drop the connection
+  ws.on("error", (err) => {
+    console.error("Live socket error:", err.message);
+    ws.close();
+  });
+
+  ws.on("close", () => {
+    clearInterval(partialTimer);
+    session = null;
+  });
+}
+
+app.prepare().then(() => {
+  const server = createServer((req, res) => handle(req, res));
+  // Frames over the cap are rejected by ws before they are buffered
+  const wss = new WebSocketServer({
+    noServer: true,
+    maxPayload: MAX_FRAME_BYTES,
+  });
+  const upgrade = app.getUpgradeHandler();
+
+  server.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+    if (pathname === LIVE_PATH) {
+      // Reject unauthenticated sockets before accepting the upgrade
+      fetch(SESSION_URL, { headers: authHeaders(req) })
+        .then((res) => {
+          if (!res.ok) {
+            socket.end(
+              `HTTP/1.1 ${res.status} ${STATUS_CODES[res.status]}\r\nConnection: close\r\n\r\n`,
+            );
+            return;
+          }
+          wss.handleUpgrade(req, socket, head, (ws) =>
+            wss.emit("connection", ws, req),
+          );
+        })
+        .catch((err) => {
+          console.error("Live auth check failed:", err.message);
+          socket.destroy();
+        });
+    } else {
+      // Next.js needs upgrades for HMR in dev
+      upgrade(req, socket, head);
+    }
+  });
+
+  wss.on("connection", handleLiveSession);
+
+  server.listen(port, () => {
+    console.log(
+      `> Ready on http://localhost:${port} (live translation at ws://localhost:${port}${LIVE_PATH})`,
+    );
+  });
+});